@@ -8,13 +8,26 @@ import { JournalTemplate, AIProviders } from './src/types';
 
 // Import internal modules
 import { AIManager } from './src/ai/AIManager';
-import { ASRManager } from './src/ai/ASRManager';
+import { ASRManager, TranscriptionResult, TranscribeOptions } from './src/ai/ASRManager';
+import type { WhisperOptions } from './src/ai/transcription/TranscriptionProvider';
 import { RecordingManager, RecordingState } from './src/recording/RecordingManager';
+import type { LiveTranscriber } from './src/recording/LiveTranscriber';
 import { RecordingModal } from './src/ui/modals/RecordingModal';
+import { RecordingRecoveryModal } from './src/ui/modals/RecordingRecoveryModal';
+import { SpeakerNamesModal } from './src/ui/modals/SpeakerNamesModal';
+import type { RecordingDraft } from './src/recording/RecordingDraftStore';
 import { TemplateManager } from './src/templates/TemplateManager';
 import { FileService } from './src/services/FileService';
+import { StreamingNoteWriter } from './src/services/StreamingNoteWriter';
 import { storeTranscriptAsMarkdown } from './src/utils/storeTranscriptAsMarkdown';
 import { generateNoteTitle } from './src/utils/titleGenerator';
+import { getSpeakers, applySpeakerNames, buildSpeakerTranscript } from './src/utils/transcriptFormatter';
+import { correctTranscription, loadCorrectionRules } from './src/utils/transcriptCorrections';
+import { storeSubtitles } from './src/utils/storeSubtitles';
+import { getConfidentText } from './src/utils/transcriptConfidence';
+import { removeHallucinations } from './src/utils/hallucinationFilter';
+import { tagSegmentLanguages } from './src/utils/languageDetection';
+import { AUDIO_MIME_TYPES } from './src/utils/requestUtils';
 import './src/styles.css';
 import './src/ui/styles/recording-modal.css';
 
@@ -27,6 +40,9 @@ export interface RecordingProcessOptions {
 	saveAudioFile: boolean;
 	diaryEntryDate: string;
 	selectedTemplate: string;
+	whisperOptions?: Partial<WhisperOptions>; // Per-recording overrides of the local Whisper options
+	translateToEnglish?: boolean; // Also store an English translation of the transcript
+	liveTranscriber?: LiveTranscriber; // Holds the slices already transcribed while recording
 	modalInstance?: RecordingModal; // Reference to the modal instance for updating UI
 }
 
@@ -86,6 +102,7 @@ export default class VoiceAIJournalPlugin extends Plugin {
 	 * @param options Options for processing the recording
 	 */
 	async stopAndProcess(options: RecordingProcessOptions): Promise<void> {
+		let streamingNote: StreamingNoteWriter | undefined;
 		try {
 			// Show processing notice
 			new Notice('Voice AI Journal: Processing recording...');
@@ -141,18 +158,56 @@ export default class VoiceAIJournalPlugin extends Plugin {
 			}
 			let transcriptionResult;
 			
-			if (audioFile) {
+			// Report per-chunk progress for long recordings without advancing the step
+			const transcribeOptions = {
+				onProgress: (statusText: string) => options.modalInstance?.updateProcessingStatus(statusText, 1),
+				templateId: options.selectedTemplate || this.settings.defaultTemplate,
+				whisperOptions: options.whisperOptions
+			};
+			
+			// With live transcription only the tail of the recording is left to transcribe
+			if (options.liveTranscriber) {
+				transcriptionResult = await options.liveTranscriber.finish(transcribeOptions.onProgress);
+			}
+			
+			if (transcriptionResult) {
+				console.log('[Voice AI Journal] Using the live transcription of the recording');
+			} else if (audioFile) {
 				// Transcribe from saved file
-				transcriptionResult = await this.asrManager.transcribeAudioFileFromVault(audioFile);
+				transcriptionResult = await this.asrManager.transcribeAudioFileFromVault(audioFile, this.settings.transcriptionLanguage || 'auto', transcribeOptions);
 			} else {
 				// Transcribe directly from blob
-				transcriptionResult = await this.asrManager.transcribeAudio(audioBlob, 'auto', fileExt);
+				transcriptionResult = await this.asrManager.transcribeAudio(audioBlob, this.settings.transcriptionLanguage || 'auto', fileExt, transcribeOptions);
 			}
 			
 			if (!transcriptionResult || !transcriptionResult.text) {
 				throw new Error('Transcription failed or returned empty result');
 			}
 			
+			// Fix recurring recognition errors before anything else uses the transcript
+			transcriptionResult = correctTranscription(transcriptionResult, await loadCorrectionRules(this));
+			
+			// Drop text Whisper invented on silence before it reaches the analysis
+			transcriptionResult = this.filterHallucinations(transcriptionResult, (statusText) => options.modalInstance?.updateProcessingStatus(statusText, 1));
+			
+			// Attribute the transcript to named speakers for diarized recordings
+			transcriptionResult = await this.labelSpeakers(transcriptionResult);
+			
+			// Tag the languages of code-switched recordings, sections may follow the dominant one
+			transcriptionResult = tagSegmentLanguages(transcriptionResult);
+			
+			// Subtitles for players and video editors
+			if (audioFile && this.settings.exportSubtitles) {
+				await this.saveSubtitles(audioFile, transcriptionResult);
+			}
+			
+			// English translation for sharing, kept next to the original transcript
+			let translationResult: TranscriptionResult | null = null;
+			if (options.translateToEnglish) {
+				options.modalInstance?.updateProcessingStatus('Translating transcript to English...', 1);
+				translationResult = await this.translateTranscription(transcriptionResult, audioBlob, fileExt, transcribeOptions);
+			}
+			
 			// Only transcribe if that's all the user wants
 			if (options.onlyTranscribe) {
 				// Create a note with just the transcription
@@ -161,8 +216,11 @@ export default class VoiceAIJournalPlugin extends Plugin {
 				const noteName = `${formattedDate} Transcription.md`;
 				const notePath = `${this.settings.noteLocation}/${noteName}`;
 				
-				// Create the content
-				let content = `# Audio Transcription - ${formattedDate}\n\n`;
+				// Create the content, recording which provider transcribed the audio
+				let content = transcriptionResult.provider
+					? `---\ntranscription_provider: "${transcriptionResult.provider}"\n---\n\n`
+					: '';
+				content += `# Audio Transcription - ${formattedDate}\n\n`;
 				
 				// Add detected language info if available
 				if (transcriptionResult.detectedLanguage) {
@@ -171,6 +229,9 @@ export default class VoiceAIJournalPlugin extends Plugin {
 				
 				// Add the transcription text
 				content += `## Transcription\n\n${transcriptionResult.text}\n\n`;
+				if (translationResult) {
+					content += `## English Translation\n\n${translationResult.text}\n\n`;
+				}
 				
 				// Add link to the audio file if it was saved
 				if (audioFile) {
@@ -183,7 +244,12 @@ export default class VoiceAIJournalPlugin extends Plugin {
 				// Store the raw transcript as a markdown note (new feature)
 				try {
 					const transcriptBaseName = noteFile.basename || noteFile.name.replace(/\.md$/, '');
-					await storeTranscriptAsMarkdown(this, transcriptionResult.text, transcriptBaseName);
+					await storeTranscriptAsMarkdown(this, transcriptionResult.text, transcriptBaseName, undefined, {
+						segments: transcriptionResult.segments,
+						corrections: transcriptionResult.corrections,
+						hallucinations: transcriptionResult.hallucinations,
+						audioFilePath: audioFile?.path
+					});
 					// We don't need to track the transcript path in this case
 				} catch (err) {
 					console.error('Failed to save transcript as markdown:', err);
@@ -199,12 +265,17 @@ export default class VoiceAIJournalPlugin extends Plugin {
 				// We'll use the template manager to generate the filename instead
 				
 				// Import the audio processing utilities
-				const { processTranscriptionWithTemplate, createJournalEntry } = await import('./src/utils/audioProcessingUtils');
+				const { processTranscriptionWithTemplate, createJournalEntry, getJournalEntryPath } = await import('./src/utils/audioProcessingUtils');
 				
 				// Store the raw transcript immediately after receiving it
 				let transcriptPath = '';
 				try {
-					const transcriptResult = await storeTranscriptAsMarkdown(this, transcriptionResult.text, '', date);
+					const transcriptResult = await storeTranscriptAsMarkdown(this, transcriptionResult.text, '', date, {
+						segments: transcriptionResult.segments,
+						corrections: transcriptionResult.corrections,
+						hallucinations: transcriptionResult.hallucinations,
+						audioFilePath: audioFile?.path
+					});
 					transcriptPath = transcriptResult.path;
 					new Notice('Transcript saved successfully');
 					// Update modal status if available
@@ -215,20 +286,47 @@ export default class VoiceAIJournalPlugin extends Plugin {
 					console.error('Failed to save transcript as markdown:', err);
 				}
 				
+				// Store the translation as a second transcript, linked from the entry as well
+				let translationPath = '';
+				if (translationResult) {
+					try {
+						const translationStoreResult = await storeTranscriptAsMarkdown(this, translationResult.text, '', date, {
+							segments: translationResult.segments,
+							audioFilePath: audioFile?.path,
+							fileSuffix: 'en'
+						});
+						translationPath = translationStoreResult.path;
+					} catch (err) {
+						console.error('Failed to save translated transcript as markdown:', err);
+					}
+				}
+				
 				// Get the selected template ID
 				const selectedTemplateId = options.selectedTemplate || this.settings.defaultTemplate;
 				
+				// Generate filename using the template manager with the specified date
+				const filename = this.templateManager.generateFilename(this.settings.noteNamingFormat, date);
+				
+				// Open the note right away and write the sections in as they are generated
+				streamingNote = this.settings.streamSections
+					? new StreamingNoteWriter(this, getJournalEntryPath(this, filename))
+					: undefined;
+				
 				// Process transcription with the selected template
 				const processedContent = await processTranscriptionWithTemplate(
 					this,
-					transcriptionResult.text,
+					this.getAnalysisText(transcriptionResult),
 					selectedTemplateId,
 					audioFile ? audioFile.path : undefined,
 					transcriptPath,
 					transcriptionResult.detectedLanguage,
 					transcriptionResult.languageCode,
 					'', // No generated title yet
-					options.modalInstance // Pass the modal instance for UI updates
+					options.modalInstance, // Pass the modal instance for UI updates
+					transcriptionResult.provider,
+					translationPath,
+					transcriptionResult.languages,
+					streamingNote
 				);
 				
 				// Generate a title for the note in the detected language
@@ -260,15 +358,15 @@ export default class VoiceAIJournalPlugin extends Plugin {
 				// Show completion notification with timer
 				new Notice(`Title generated in ${titleTimer.getFormattedTime()}: "${noteTitle || 'No title generated'}"`);
 				
-				// Generate filename using the template manager with the specified date
-				const filename = this.templateManager.generateFilename(this.settings.noteNamingFormat, date);
-				
 				// Create the journal entry with the title
-				await createJournalEntry(this, processedContent, filename, noteTitle);
+				await createJournalEntry(this, processedContent, filename, noteTitle, streamingNote);
 				
 				// Note will be opened by createJournalEntry
 			}
 			
+			// The recording is safely processed, the crash recovery draft is no longer needed
+			await this.recordingManager.discardDraft();
+			
 			new Notice('Voice AI Journal: Processing complete!');
 			// Update modal status if available
 			if (options.modalInstance) {
@@ -281,6 +379,8 @@ export default class VoiceAIJournalPlugin extends Plugin {
 				options.modalInstance.updateProcessingStatus('Processing complete!', totalSteps + 1);
 			}
 		} catch (error) {
+			// Keep the sections streamed so far and stop pending writes to the note
+			await streamingNote?.abort(error);
 			console.error('Failed to process recording:', error);
 			new Notice(`Failed to process recording: ${error instanceof Error ? error.message : String(error)}`);
 			throw error; // Re-throw to allow caller to handle
@@ -316,6 +416,9 @@ export default class VoiceAIJournalPlugin extends Plugin {
 			
 			// Register plugin components and commands
 			await this.registerPluginComponents();
+			
+			// Offer to recover recordings interrupted by a crash
+			await this.checkForRecoverableDrafts();
 		});
 	}
 
@@ -429,14 +532,263 @@ export default class VoiceAIJournalPlugin extends Plugin {
 			}
 		});
 		
+		// Subtitles for an audio file that is already in the vault
+		this.addCommand({
+			id: 'regenerate-subtitles',
+			name: 'Regenerate Subtitles for Current Audio File',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !(file.extension.toLowerCase() in AUDIO_MIME_TYPES)) {
+					return false;
+				}
+				if (!checking) {
+					this.regenerateSubtitles(file);
+				}
+				return true;
+			}
+		});
+		
 		// Add more commands as needed
 	}
 
+	/**
+	 * Look for recording drafts left behind by a crash and prompt the user to recover them
+	 */
+	async checkForRecoverableDrafts(): Promise<void> {
+		try {
+			const draftStore = this.recordingManager.getDraftStore();
+			const drafts = await draftStore.listDrafts();
+			
+			const recoverable: RecordingDraft[] = [];
+			for (const draft of drafts) {
+				if (draft.partCount > 0) {
+					recoverable.push(draft);
+				} else {
+					// Nothing was recorded before the crash
+					await draftStore.deleteDraft(draft);
+				}
+			}
+			
+			if (recoverable.length > 0) {
+				console.log(`[Voice AI Journal] Found ${recoverable.length} recoverable recording draft(s)`);
+				new RecordingRecoveryModal(this, recoverable).open();
+			}
+		} catch (error) {
+			console.error('[Voice AI Journal] Failed to check for recording drafts:', error);
+		}
+	}
+	
+	/**
+	 * Process a recovered recording draft like an uploaded audio file
+	 * @param draft The draft to process
+	 * @returns True if the draft was processed and deleted
+	 */
+	async processRecoveredDraft(draft: RecordingDraft): Promise<boolean> {
+		const blob = await this.recordingManager.getDraftStore().readDraftAudio(draft);
+		const file = new File([blob], `recovered-recording${draft.extension}`, { type: draft.mimeType });
+		
+		const success = await this.processAudioFile(file, undefined, new Date(draft.startedAt));
+		if (success) {
+			await this.recordingManager.getDraftStore().deleteDraft(draft);
+		}
+		return success;
+	}
+	
+	/**
+	 * Save the audio of a recovered recording draft to the recordings folder
+	 * @param draft The draft to save
+	 * @returns True if the audio was saved and the draft deleted
+	 */
+	async saveRecoveredDraft(draft: RecordingDraft): Promise<boolean> {
+		const blob = await this.recordingManager.getDraftStore().readDraftAudio(draft);
+		
+		const { storeFileWithStructure } = await import('./src/utils/fileStoreUtils');
+		const audioFile = await storeFileWithStructure({
+			plugin: this,
+			type: 'audio',
+			baseFileName: '', // Empty as filename is generated in buildStructuredPath
+			content: await blob.arrayBuffer(),
+			date: new Date(draft.startedAt),
+			extension: draft.extension
+		});
+		
+		if (!audioFile) {
+			return false;
+		}
+		
+		new Notice(`Recovered audio saved to ${audioFile.path}`);
+		await this.recordingManager.getDraftStore().deleteDraft(draft);
+		return true;
+	}
+
+	/**
+	 * Write SRT and WebVTT subtitles for a saved recording
+	 * Failures are reported but never abort processing of the recording
+	 * @param audioFile The saved recording
+	 * @param result The transcription of the recording
+	 * @param date Date used for the folder structure
+	 * @returns True if the subtitles were written
+	 */
+	async saveSubtitles(audioFile: TFile, result: TranscriptionResult, date?: Date): Promise<boolean> {
+		if (!result.segments || result.segments.length === 0) {
+			console.warn('[Voice AI Journal] No segment timings in the transcription, skipping subtitle export');
+			new Notice('Subtitles not created: the transcription provider returned no timestamps');
+			return false;
+		}
+		
+		try {
+			const files = await storeSubtitles(this, audioFile, result.segments, date);
+			new Notice(`Subtitles saved to ${files.map(file => file.path).join(', ')}`);
+			return true;
+		} catch (error) {
+			console.error('[Voice AI Journal] Failed to save subtitles:', error);
+			new Notice('Failed to save subtitles');
+			return false;
+		}
+	}
+	
+	/**
+	 * Transcribe an audio file from the vault again and write its subtitles
+	 * @param audioFile The audio file
+	 */
+	async regenerateSubtitles(audioFile: TFile): Promise<void> {
+		try {
+			new Notice(`Transcribing ${audioFile.name} for subtitles...`);
+			let transcriptionResult = await this.asrManager.transcribeAudioFileFromVault(audioFile, this.settings.transcriptionLanguage || 'auto');
+			transcriptionResult = correctTranscription(transcriptionResult, await loadCorrectionRules(this));
+			transcriptionResult = this.filterHallucinations(transcriptionResult);
+			transcriptionResult = await this.labelSpeakers(transcriptionResult);
+			await this.saveSubtitles(audioFile, transcriptionResult);
+		} catch (error) {
+			console.error('[Voice AI Journal] Failed to regenerate subtitles:', error);
+			new Notice(`Failed to regenerate subtitles: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	/**
+	 * Translate a transcription into English
+	 *
+	 * Uses Whisper's translate task on the audio when a transcription provider supports
+	 * it, otherwise, or if that request fails, the analysis LLM translates the transcript
+	 * text. Failures are reported but never abort processing of the original transcript.
+	 * @param original The transcription in the spoken language
+	 * @param audioBlob The recorded audio
+	 * @param fileExtension File extension of the audio (without dot)
+	 * @param options Options the original was transcribed with
+	 * @returns The English transcript, or null if the recording is already English or translation failed
+	 */
+	async translateTranscription(original: TranscriptionResult, audioBlob: Blob, fileExtension: string, options: TranscribeOptions): Promise<TranscriptionResult | null> {
+		if (original.languageCode === 'en') {
+			new Notice('Recording is already in English, no translation needed');
+			return null;
+		}
+		
+		if (this.asrManager.supportsTranslation()) {
+			try {
+				const translation = await this.asrManager.transcribeAudio(audioBlob, original.languageCode || 'auto', fileExtension, {
+					...options,
+					task: 'translate',
+					quiet: true
+				});
+				return this.filterHallucinations(translation);
+			} catch (error) {
+				// e.g. an OpenAI-compatible server without /audio/translations
+				console.warn('[Voice AI Journal] Translation by the transcription provider failed, translating the transcript with the LLM:', error);
+			}
+		}
+		
+		try {
+			const text = await this.aiManager.translateText(original.text, 'English', this.settings.aiProviders.analysis);
+			return { text, detectedLanguage: 'english', languageCode: 'en', task: 'translate', provider: 'LLM translation' };
+		} catch (error) {
+			console.error('[Voice AI Journal] Failed to translate transcript:', error);
+			new Notice(`Failed to translate transcript: ${error instanceof Error ? error.message : String(error)}`);
+			return null;
+		}
+	}
+
+	/**
+	 * Remove likely Whisper hallucinations from a transcription, if enabled in the settings
+	 * @param result The transcription result
+	 * @param onStatus Optional callback receiving a warning for the processing status
+	 * @returns The cleaned result, listing the removed passages in `hallucinations`
+	 */
+	filterHallucinations(result: TranscriptionResult, onStatus?: (statusText: string) => void): TranscriptionResult {
+		if (!this.settings.removeHallucinations) {
+			return result;
+		}
+		
+		const cleaned = removeHallucinations(result, {
+			noSpeechThreshold: this.settings.hallucinationNoSpeechThreshold ?? DEFAULT_SETTINGS.hallucinationNoSpeechThreshold
+		});
+		const count = cleaned.hallucinations?.length || 0;
+		if (count > 0) {
+			const warning = `Removed ${count} likely hallucinated passage${count === 1 ? '' : 's'} from the transcript`;
+			new Notice(`Voice AI Journal: ${warning}`);
+			onStatus?.(warning);
+		}
+		return cleaned;
+	}
+
+	/**
+	 * Get the transcript passed to the template sections
+	 * Leaves out low-confidence segments when enabled in the settings
+	 * @param result The transcription result
+	 * @returns The transcript text for LLM analysis
+	 */
+	getAnalysisText(result: TranscriptionResult): string {
+		if (!this.settings.excludeLowConfidenceFromAnalysis) {
+			return result.text;
+		}
+		return getConfidentText(result, this.settings.analysisMinConfidence ?? DEFAULT_SETTINGS.analysisMinConfidence);
+	}
+
+	/**
+	 * Turn a diarized transcription into labeled speaker turns
+	 *
+	 * Optionally asks the user to name the speakers first, so template sections
+	 * receive "Alice: ..." instead of backend labels like "SPEAKER_00: ...".
+	 * @param result The transcription result
+	 * @returns The result with renamed speakers and a speaker-labeled text, or the unchanged result if it is not diarized
+	 */
+	async labelSpeakers(result: TranscriptionResult): Promise<TranscriptionResult> {
+		const segments = result.segments || [];
+		const speakers = getSpeakers(segments);
+		if (speakers.length === 0) {
+			return result;
+		}
+		
+		let speakerNames: Record<string, string> = {};
+		if (this.settings.promptForSpeakerNames) {
+			const samples = speakers.map(label => {
+				// Use the longest thing the speaker said as a hint
+				const sample = segments
+					.filter(segment => segment.speaker === label)
+					.reduce((longest, segment) => segment.text.length > longest.length ? segment.text : longest, '');
+				return { label, sample: sample.length > 120 ? `${sample.slice(0, 117)}...` : sample };
+			});
+			speakerNames = await new Promise<Record<string, string>>(resolve => {
+				new SpeakerNamesModal(this, samples, resolve).open();
+			});
+		}
+		
+		const namedSegments = applySpeakerNames(segments, speakerNames);
+		return {
+			...result,
+			segments: namedSegments,
+			text: buildSpeakerTranscript(namedSegments)
+		};
+	}
+
 	/**
 	 * Process an uploaded audio file
 	 * @param file The audio file from the file upload dialog
+	 * @param modalInstance Optional modal instance for status updates
+	 * @param recordedAt Optional recording date, defaults to now
+	 * @returns True if the journal entry was created successfully
 	 */
-	async processAudioFile(file: File, modalInstance?: any): Promise<void> {
+	async processAudioFile(file: File, modalInstance?: any, recordedAt?: Date): Promise<boolean> {
+		let streamingNote: StreamingNoteWriter | undefined;
 		try {
 			new Notice(`Processing audio file: ${file.name}`);
 			// Update modal status if available
@@ -452,7 +804,7 @@ export default class VoiceAIJournalPlugin extends Plugin {
 			
 			// Save the audio file using our unified file structure
 			const { storeFileWithStructure } = await import('./src/utils/fileStoreUtils');
-			const audioDate = new Date();
+			const audioDate = recordedAt || new Date();
 			
 			// Force m4a extension for iOS devices
 			const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent) || 
@@ -484,16 +836,45 @@ export default class VoiceAIJournalPlugin extends Plugin {
 			}
 			
 			// Use our ASRManager to transcribe the audio file
-			const transcriptionResult = await this.asrManager.transcribeAudioFileFromVault(audioFile);
+			let transcriptionResult = await this.asrManager.transcribeAudioFileFromVault(
+				audioFile,
+				this.settings.transcriptionLanguage || 'auto',
+				{
+					onProgress: (statusText: string) => modalInstance?.updateProcessingStatus(statusText, 2),
+					templateId: this.settings.defaultTemplate
+				}
+			);
 			
 			if (!transcriptionResult || !transcriptionResult.text) {
 				throw new Error('Transcription failed or returned empty result');
 			}
 			
+			// Fix recurring recognition errors before anything else uses the transcript
+			transcriptionResult = correctTranscription(transcriptionResult, await loadCorrectionRules(this));
+			
+			// Drop text Whisper invented on silence before it reaches the analysis
+			transcriptionResult = this.filterHallucinations(transcriptionResult, (statusText) => modalInstance?.updateProcessingStatus(statusText, 2));
+			
+			// Attribute the transcript to named speakers for diarized recordings
+			transcriptionResult = await this.labelSpeakers(transcriptionResult);
+			
+			// Tag the languages of code-switched recordings, sections may follow the dominant one
+			transcriptionResult = tagSegmentLanguages(transcriptionResult);
+			
+			// Subtitles for players and video editors
+			if (this.settings.exportSubtitles) {
+				await this.saveSubtitles(audioFile, transcriptionResult, audioDate);
+			}
+			
 			// Store the raw transcript immediately after receiving it
 			let transcriptPath = '';
 			try {
-				const transcriptResult = await storeTranscriptAsMarkdown(this, transcriptionResult.text, '', audioDate);
+				const transcriptResult = await storeTranscriptAsMarkdown(this, transcriptionResult.text, '', audioDate, {
+					segments: transcriptionResult.segments,
+					corrections: transcriptionResult.corrections,
+					hallucinations: transcriptionResult.hallucinations,
+					audioFilePath: audioFile.path
+				});
 				transcriptPath = transcriptResult.path;
 				new Notice('Transcript saved successfully');
 			} catch (err) {
@@ -511,20 +892,31 @@ export default class VoiceAIJournalPlugin extends Plugin {
 			}
 			
 			// Import the shared audio processing utility
-			const { processTranscriptionWithTemplate, createJournalEntry } = await import('./src/utils/audioProcessingUtils');
+			const { processTranscriptionWithTemplate, createJournalEntry, getJournalEntryPath } = await import('./src/utils/audioProcessingUtils');
 			
 			// Generate filename using the template manager
-			const filename = this.templateManager.generateFilename(this.settings.noteNamingFormat);
+			const filename = this.templateManager.generateFilename(this.settings.noteNamingFormat, audioDate);
+			
+			// Open the note right away and write the sections in as they are generated
+			streamingNote = this.settings.streamSections
+				? new StreamingNoteWriter(this, getJournalEntryPath(this, filename))
+				: undefined;
 			
 			// Process transcription with the selected template
 			const processedContent = await processTranscriptionWithTemplate(
 				this,
-				transcriptionResult.text,
+				this.getAnalysisText(transcriptionResult),
 				selectedTemplateId,
 				audioFile ? audioFile.path : undefined,
 				transcriptPath, // Pass the transcript file path
 				transcriptionResult.detectedLanguage, // Pass the full detected language name
-				transcriptionResult.languageCode // Pass the language code
+				transcriptionResult.languageCode, // Pass the language code
+				'', // No generated title yet
+				undefined, // Status updates are handled here
+				transcriptionResult.provider,
+				undefined, // No translation
+				transcriptionResult.languages,
+				streamingNote
 			);
 			
 			// Update modal status if available
@@ -556,7 +948,7 @@ export default class VoiceAIJournalPlugin extends Plugin {
 			new Notice(`Title generated in ${titleTimer.getFormattedTime()}: "${noteTitle || 'No title generated'}"`);
 			
 			// Create the journal entry with the title
-			await createJournalEntry(this, processedContent, filename, noteTitle);
+			await createJournalEntry(this, processedContent, filename, noteTitle, streamingNote);
 			
 			new Notice('Journal entry processing complete!');
 			// Update modal status if available
@@ -572,9 +964,13 @@ export default class VoiceAIJournalPlugin extends Plugin {
 				// Delay closing the modal so users can read the final step
 				modalInstance.closeWithDelay();
 			}
+			return true;
 		} catch (error) {
+			// Keep the sections streamed so far and stop pending writes to the note
+			await streamingNote?.abort(error);
 			console.error('Failed to process audio file:', error);
 			new Notice(`Failed to process audio file: ${error instanceof Error ? error.message : String(error)}`);
+			return false;
 		}
 	}
 	
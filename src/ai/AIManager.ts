@@ -1,9 +1,17 @@
 import type { AIProvider, AIProviders } from '../types';
 import type VoiceAIJournalPlugin from '../../main';
 
+/**
+ * Model settings of a single analysis request, overriding the provider's defaults
+ */
+export interface AnalysisModelOptions {
+    model?: string; // Model to use instead of the provider's configured model
+    temperature?: number; // Sampling temperature
+}
+
 /**
  * Class responsible for managing AI interactions via the AI Providers plugin
- * and local transcription providers
+ * (transcription is handled by ASRManager)
  */
 export class AIManager {
     private aiProviders: AIProviders | null;
@@ -41,156 +49,6 @@ export class AIManager {
         return this.aiProviders?.providers?.find((p: AIProvider) => p.id === id) || null;
     }
 
-    /**
-     * Transcribe audio data to text
-     * @param audioBlob Audio data as a blob
-     * @param providerId Optional AI provider ID to use for transcription
-     * @param language Optional language code for transcription
-     * @returns The transcription text
-     */
-    async transcribeAudio(audioBlob: Blob, providerId: string | null, language?: string): Promise<string> {
-        // Check settings for transcription provider
-        const transcriptionProvider = this.plugin?.settings?.transcriptionProvider || 'aiProviders';
-        
-        // Get language setting from plugin settings or use provided language
-        const transcriptionLanguage = language || (this.plugin?.settings?.transcriptionLanguage || 'auto');
-        
-        // Use local Whisper ASR if configured
-        if (transcriptionProvider === 'localWhisper') {
-            return this.transcribeWithLocalWhisper(audioBlob, transcriptionLanguage);
-        } 
-        
-        // Otherwise use AI Providers for transcription
-        if (!this.isInitialized()) {
-            throw new Error('AI Providers not initialized');
-        }
-
-        // Find the provider
-        const provider = providerId ? this.getProviderById(providerId) : (this.aiProviders?.providers?.[0] || null);
-        if (!provider) {
-            throw new Error('No AI provider available for transcription');
-        }
-        
-        // Convert audio to base64
-        const base64Audio = await this.blobToBase64(audioBlob);
-
-        try {
-            // Execute transcription
-            if (!this.aiProviders) throw new Error('AI Providers not available');
-            
-            // Build prompt with language instructions if needed
-            let prompt = `Transcribe the following audio`;
-            if (transcriptionLanguage && transcriptionLanguage !== 'auto') {
-                prompt += ` in ${transcriptionLanguage} language`;
-            }
-            prompt += `: ${base64Audio}`;
-            
-            const response = await this.aiProviders.execute({
-                provider: provider,
-                prompt: prompt,
-            });
-
-            if (!response) {
-                throw new Error('Failed to get transcription response');
-            }
-
-            // Handle the response
-            return new Promise((resolve, reject) => {
-                response.onData(() => {
-                    // Simply listen for data events
-                });
-                
-                response.onEnd((text: string) => {
-                    resolve(text);
-                });
-                
-                response.onError((error: Error) => {
-                    reject(error);
-                });
-            });
-        } catch (error) {
-            console.error('Transcription error:', error);
-            throw new Error(`Failed to transcribe audio: ${error instanceof Error ? error.message : String(error)}`);
-        }
-    }
-    
-    /**
-     * Transcribe audio using local Whisper ASR server
-     * 
-     * @param audioBlob The audio blob to transcribe
-     * @param language Language code for transcription
-     * @returns Transcription text
-     */
-    private async transcribeWithLocalWhisper(audioBlob: Blob, language: string): Promise<string> {
-        // Get the endpoint from settings
-        const endpoint = this.plugin?.settings?.localWhisperEndpoint;
-        if (!endpoint) {
-            throw new Error('Local Whisper endpoint not configured');
-        }
-        
-        // Prepare the form data
-        const formData = new FormData();
-        formData.append('audio_file', audioBlob, 'recording.wav');
-        
-        // Add language if it's not auto
-        if (language && language !== 'auto') {
-            formData.append('language', language);
-        }
-        
-        try {
-            // Make the API request
-            const response = await fetch(`${endpoint}/asr`, {
-                method: 'POST',
-                body: formData,
-            });
-            
-            if (!response.ok) {
-                throw new Error(`Server responded with ${response.status}: ${response.statusText}`);
-            }
-            
-            const result = await response.json();
-            return result.text || '';
-        } catch (error) {
-            console.error('Local Whisper transcription error:', error);
-            throw new Error(`Failed to transcribe with Local Whisper: ${error instanceof Error ? error.message : String(error)}`);
-        }
-    }
-    
-    /**
-     * Transcribe an audio file
-     * 
-     * @param file The file to be transcribed
-     * @returns The transcription text
-     */
-    async transcribeAudioFile(file: File): Promise<string> {
-        // Convert the file to a blob
-        const blob = new Blob([await file.arrayBuffer()], { type: file.type });
-        
-        // The transcribeAudio method will check the transcription provider setting
-        // and use the appropriate method (local Whisper or AI Providers)
-        const providerId = this.plugin?.settings?.aiProviders?.transcription || null;
-
-        // Transcribe the audio using the existing method
-        return this.transcribeAudio(blob, providerId);
-    }
-
-    /**
-     * Convert a Blob to a base64 string
-     * @param blob The blob to convert
-     * @returns A Promise that resolves to the base64 string
-     */
-    private blobToBase64(blob: Blob): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const base64String = reader.result as string;
-                resolve(base64String);
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
-        });
-    }
-
     /**
      * Analyze text using the selected AI provider
      * 
@@ -202,9 +60,10 @@ export class AIManager {
     /**
      * Get enhanced system prompt with language instructions
      * @param detectedLanguage Optional language detected from transcription
+     * @param sectionLanguage Optional language chosen by the template section, overrides the output language setting
      * @returns Enhanced system prompt with language instructions
      */
-    private getEnhancedSystemPrompt(detectedLanguage?: string): string {
+    private getEnhancedSystemPrompt(detectedLanguage?: string, sectionLanguage?: string): string {
         if (!this.plugin?.settings) {
             return '';
         }
@@ -215,8 +74,12 @@ export class AIManager {
         // Determine which language to use for the response
         const outputLanguage = this.plugin.settings.outputLanguage || 'auto';
         
+        // A language chosen by the template section wins over the global setting
+        if (sectionLanguage) {
+            systemPrompt += `\n\nPlease respond in ${sectionLanguage} language.`;
+        }
         // If output language is explicitly set (not auto), add language instruction
-        if (outputLanguage !== 'auto') {
+        else if (outputLanguage !== 'auto') {
             // Just use the provided language setting directly
             // It's either a language code or name, and the LLM will understand either way
             systemPrompt += `\n\nPlease respond in ${outputLanguage} language.`;
@@ -232,7 +95,16 @@ export class AIManager {
         return systemPrompt;
     }
 
-    async analyzeText(text: string, prompt: string, providerId: string | null, detectedLanguage?: string, languageCode?: string): Promise<string> {
+    async analyzeText(
+        text: string,
+        prompt: string,
+        providerId: string | null,
+        detectedLanguage?: string,
+        languageCode?: string,
+        sectionLanguage?: string,
+        onData?: (partialText: string) => void,
+        modelOptions?: AnalysisModelOptions
+    ): Promise<string> {
         if (!this.isInitialized()) {
             throw new Error('AI Providers not initialized');
         }
@@ -248,7 +120,7 @@ export class AIManager {
             const languageToUse = detectedLanguage || this.plugin?.settings?.transcriptionLanguage;
             
             // Get enhanced system prompt with language instructions
-            const systemPrompt = this.getEnhancedSystemPrompt(languageToUse);
+            const systemPrompt = this.getEnhancedSystemPrompt(languageToUse, sectionLanguage);
 
             // Prepare messages array for LLM (system + user roles)
             const messages: { role: 'system' | 'user'; content: string }[] = [
@@ -265,14 +137,16 @@ export class AIManager {
             // Execute the analysis using AI Providers (messages format)
             if (!this.aiProviders) throw new Error('AI Providers not available');
             const response = await this.aiProviders.execute({
-                provider: provider,
-                messages: messages
+                provider: modelOptions?.model ? { ...provider, model: modelOptions.model } : provider,
+                messages: messages,
+                options: modelOptions?.temperature !== undefined ? { temperature: modelOptions.temperature } : undefined
             });
 
             // Handle the response
             return new Promise((resolve, reject) => {
-                response.onData(() => {
-                    // Simply listen for data events
+                response.onData((_chunk: string, accumulatedText: string) => {
+                    // Pass the text so far on for streaming, without a thinking section still being written
+                    onData?.(this.removeThinkingSections(accumulatedText).replace(/<think>[\s\S]*$/, ''));
                 });
                 
                 response.onEnd((responseText: string) => {
@@ -292,6 +166,58 @@ export class AIManager {
         }
     }
 
+    /**
+     * Translate a transcript with the LLM, for transcription providers without a translate task
+     * 
+     * @param text The transcript to translate
+     * @param targetLanguage Language to translate into
+     * @param providerId The ID of the AI provider to use
+     * @returns The translated transcript
+     */
+    async translateText(text: string, targetLanguage: string, providerId: string | null): Promise<string> {
+        if (!this.isInitialized()) {
+            throw new Error('AI Providers not initialized');
+        }
+
+        // Find the provider
+        const provider = providerId ? this.getProviderById(providerId) : (this.aiProviders?.providers?.[0] || null);
+        if (!provider) {
+            throw new Error('No AI provider available for translation');
+        }
+
+        try {
+            // The output language setting must not apply here, so the global system prompt is not used
+            const messages: { role: 'system' | 'user'; content: string }[] = [
+                {
+                    role: 'system',
+                    content: `You translate transcripts of spoken journal entries into ${targetLanguage}. Translate faithfully, keep speaker labels and line breaks, do not summarize or add comments. Respond with the translation only.`
+                },
+                { role: 'user', content: text }
+            ];
+
+            if (!this.aiProviders) throw new Error('AI Providers not available');
+            const response = await this.aiProviders.execute({
+                provider: provider,
+                messages: messages
+            });
+
+            return new Promise((resolve, reject) => {
+                response.onData(() => {});
+                
+                response.onEnd((responseText: string) => {
+                    resolve(this.removeThinkingSections(responseText).trim());
+                });
+                
+                response.onError((error: Error) => {
+                    reject(error);
+                });
+            });
+        } catch (error) {
+            console.error('Translation error:', error);
+            throw new Error(`Failed to translate text: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     /**
      * Analyze a journal entry and generate a visualization (like a Mermaid chart)
      * 
@@ -1,50 +1,142 @@
-import { TFile, Notice, requestUrl } from 'obsidian';
+import { TFile, Notice } from 'obsidian';
 import type VoiceAIJournalPlugin from '../../main';
 import { startTimer } from '../utils/timerUtils';
+import { trimSilence } from '../audio/silenceTrimmer';
+import { convertToAsrWav, decodeAsrSamples, ASR_SAMPLE_RATE } from '../audio/AudioConverter';
+import { encodeWav } from '../audio/wavEncoder';
+import { splitAudioIntoChunks, estimateMaxDuration, AudioChunk } from '../audio/audioSegmenter';
+import { stitchTranscripts } from '../utils/transcriptStitcher';
+import { getChunkSpeakerLabel } from '../utils/transcriptFormatter';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { DEFAULT_SETTINGS } from '../settings/settings';
+import { loadVocabulary, buildVocabularyPrompt } from '../utils/vocabularyUtils';
+import { retryWithBackoff, isTransientRequestError } from '../utils/retryUtils';
+import { AUDIO_MIME_TYPES } from '../utils/requestUtils';
+import type { TranscriptionProvider, TranscriptionRequest, TranscriptionResult, TranscriptionSegment, WhisperOptions, WhisperTask } from './transcription/TranscriptionProvider';
+import { TranscriptionProviderRegistry } from './transcription/TranscriptionProviderRegistry';
+import { LocalWhisperProvider } from './transcription/LocalWhisperProvider';
+import { AIProvidersTranscriptionProvider } from './transcription/AIProvidersTranscriptionProvider';
+import { OpenAICompatibleProvider } from './transcription/OpenAICompatibleProvider';
+import { WhisperCppProvider } from './transcription/WhisperCppProvider';
+
+export type { TranscriptionResult, TranscriptionSegment } from './transcription/TranscriptionProvider';
 
 /**
- * Result of a transcription operation
+ * Optional settings for a transcription run
  */
-export interface TranscriptionResult {
-    text: string;
-    detectedLanguage?: string; // Full language name (e.g., 'English', 'German')
-    languageCode?: string; // ISO language code (e.g., 'en', 'de')
-    processingTimeMs?: number; // Processing time in milliseconds
+export interface TranscribeOptions {
+    onProgress?: (statusText: string) => void; // Receives status text while long recordings are transcribed in chunks
+    templateId?: string; // Template the transcript is processed with, for its vocabulary note
+    whisperOptions?: Partial<WhisperOptions>; // Per-recording overrides of the local Whisper options
+    quiet?: boolean; // Skip the completion notice, e.g. for live transcription slices
+    task?: WhisperTask; // 'translate' for an English transcript, only providers supporting translation are used
 }
 
 /**
  * Manager for Automatic Speech Recognition functionality
  */
 export class ASRManager {
+    private providers = new TranscriptionProviderRegistry();
+
     /**
      * @param plugin Plugin instance
      */
-    constructor(private plugin: VoiceAIJournalPlugin) {}
+    constructor(private plugin: VoiceAIJournalPlugin) {
+        this.providers.register(new LocalWhisperProvider(plugin));
+        this.providers.register(new AIProvidersTranscriptionProvider(plugin));
+        this.providers.register(new OpenAICompatibleProvider(plugin));
+        this.providers.register(new WhisperCppProvider(plugin));
+    }
+
+    /**
+     * Get the registry of available transcription providers
+     */
+    getProviderRegistry(): TranscriptionProviderRegistry {
+        return this.providers;
+    }
+
+    /**
+     * Get the transcription provider selected in the settings
+     * @throws Error if no provider is registered under the selected ID
+     */
+    getActiveProvider(): TranscriptionProvider {
+        const providerId = this.plugin.settings.transcriptionProvider;
+        const provider = this.providers.get(providerId);
+        if (!provider) {
+            throw new Error(`Unknown transcription provider: ${providerId}`);
+        }
+        return provider;
+    }
 
     /**
      * Transcribe audio data to text
      * @param audioBlob Audio data as a blob
      * @param language Language code for transcription, or 'auto' for automatic detection
      * @param fileExtension Optional file extension to determine MIME type
+     * @param options Progress callback and template for the transcription
      * @returns Promise that resolves to transcription text
      */
-    async transcribeAudio(audioBlob: Blob, language = 'auto', fileExtension = 'wav'): Promise<TranscriptionResult> {
+    async transcribeAudio(audioBlob: Blob, language = 'auto', fileExtension = 'wav', options: TranscribeOptions = {}): Promise<TranscriptionResult> {
         // Start the ASR timer
         const asrTimer = startTimer('ASR Transcription');
         
         try {
-            // Select the transcription method based on the settings
+            // Decode once to 16 kHz mono for conversion and trimming (the saved recording stays untouched)
+            const provider = this.plugin.settings.transcriptionProvider;
+            const audioFormat = this.plugin.settings.asrAudioFormat?.[provider] || DEFAULT_SETTINGS.asrAudioFormat[provider] || 'original';
+            let samples: Float32Array | null = null;
+            if (audioFormat === 'wav16k' || this.plugin.settings.trimSilence) {
+                try {
+                    samples = await decodeAsrSamples(audioBlob);
+                } catch (decodeError) {
+                    console.warn('[VoiceAIJournal] Audio conversion to WAV failed, using original audio:', decodeError);
+                }
+            }
+            
+            // Remove dead air at the start and end, Whisper tends to hallucinate text on silence
+            let trimmedStartMs = 0;
+            let trimmed = false;
+            if (samples && this.plugin.settings.trimSilence) {
+                const trimResult = trimSilence(samples, ASR_SAMPLE_RATE, this.plugin.settings.vadSilenceThresholdDb);
+                if (trimResult) {
+                    samples = trimResult.samples;
+                    trimmedStartMs = trimResult.trimmedStartMs;
+                    trimmed = true;
+                }
+            }
+            
+            // Providers needing it, and trimmed audio, are sent as 16 kHz mono WAV
+            if (samples && (audioFormat === 'wav16k' || trimmed)) {
+                audioBlob = new Blob([encodeWav([samples], ASR_SAMPLE_RATE)], { type: 'audio/wav' });
+                fileExtension = 'wav';
+            }
+            
+            // Split long recordings so no single request times out or holds the whole file
+            const chunks = this.plugin.settings.chunkLongRecordings
+                ? await this.splitForTranscription(audioBlob, samples)
+                : null;
+            
+            // Vocabulary hints so names and jargon are spelled correctly
+            const prompt = await this.getVocabularyPrompt(options.templateId);
+            
             let result: TranscriptionResult;
-            if (this.plugin.settings.transcriptionProvider === 'localWhisper') {
-                result = await this.transcribeWithLocalWhisper(audioBlob, language, fileExtension);
+            if (chunks) {
+                result = await this.transcribeChunks(chunks, { language, fileExtension: 'wav', prompt, whisperOptions: options.whisperOptions, task: options.task }, options.onProgress);
             } else {
-                result = await this.transcribeWithAIProviders(audioBlob, language);
+                result = await this.transcribeWithProvider(audioBlob, { language, fileExtension, prompt, whisperOptions: options.whisperOptions, task: options.task });
+            }
+            
+            // Keep segment timings aligned with the saved recording, not the trimmed audio
+            if (result.segments && trimmedStartMs > 0) {
+                result.segments = offsetSegments(result.segments, trimmedStartMs / 1000);
             }
             
             // Log and notify about the ASR processing time
             const elapsedTime = asrTimer.stop();
             console.log(`ASR processing completed in ${asrTimer.getFormattedTime()}`);
-            new Notice(`Audio transcribed in ${asrTimer.getFormattedTime()}`);
+            if (!options.quiet) {
+                new Notice(`Audio transcribed in ${asrTimer.getFormattedTime()}`);
+            }
             
             // Add processing time to the result
             return {
@@ -58,428 +150,278 @@ export class ASRManager {
     }
 
     /**
-     * Transcribe audio file from vault
-     * @param file The file to transcribe
-     * @param language Language code for transcription, or 'auto' for automatic detection
-     * @returns Promise that resolves to transcription text
+     * Get the selected provider followed by the configured fallback providers
      */
-    async transcribeAudioFileFromVault(file: TFile, language = 'auto'): Promise<TranscriptionResult> {
-        try {
-            // Read the file from the vault
-            const arrayBuffer = await this.plugin.app.vault.readBinary(file);
-            
-            // Get the file extension
-            const extension = file.extension.toLowerCase();
-            
-            // Map file extensions to MIME types
-            const mimeTypeMap: Record<string, string> = {
-                'webm': 'audio/webm',
-                'mp3': 'audio/mpeg',
-                'mp4': 'audio/mp4',
-                'm4a': 'audio/mp4',
-                'wav': 'audio/wav',
-                'ogg': 'audio/ogg',
-                'flac': 'audio/flac'
-            };
-            
-            // Get the correct MIME type based on the file extension
-            const mimeType = mimeTypeMap[extension] || 'audio/wav';
-            
-            // Convert to blob with the correct MIME type
-            const blob = new Blob([arrayBuffer], { type: mimeType });
-            
-            // Transcribe using the selected method, passing the file extension
-            return await this.transcribeAudio(blob, language, extension);
-        } catch (error) {
-            console.error('Failed to transcribe audio file from vault:', error);
-            throw new Error(`Failed to transcribe audio file: ${error instanceof Error ? error.message : String(error)}`);
+    getProviderChain(): TranscriptionProvider[] {
+        const chain = [this.getActiveProvider()];
+        for (const providerId of this.plugin.settings.asrFallbackProviders || []) {
+            const provider = this.providers.get(providerId);
+            if (provider && !chain.includes(provider)) {
+                chain.push(provider);
+            } else if (!provider) {
+                console.warn(`[VoiceAIJournal] Ignoring unknown fallback transcription provider: ${providerId}`);
+            }
         }
+        return chain;
     }
-    
+
+    /**
+     * Check whether a provider in the chain can translate speech into English
+     */
+    supportsTranslation(): boolean {
+        return this.getProviderChain().some(provider => provider.capabilities.translation);
+    }
+
     /**
-     * Transcribe audio to text using AI Providers
+     * Transcribe a single audio blob, falling back to the next provider in the chain on failure
      *
-     * @param audioBlob Audio blob to transcribe
-     * @param language Language code for transcription
-     * @returns Promise that resolves to a TranscriptionResult
+     * Transient errors (network, timeouts, 429, 5xx) are retried with exponential
+     * backoff before the next provider is tried.
      */
-    private async transcribeWithAIProviders(audioBlob: Blob, language: string): Promise<TranscriptionResult> {
-        // Start a timer for AI Provider transcription
-        const aiProviderTimer = startTimer('AI Provider Transcription');
-        
-        const aiProviders = this.plugin.aiProviders;
-        if (!aiProviders) {
-            throw new Error('AI Providers not initialized');
+    private async transcribeWithProvider(audioBlob: Blob, request: TranscriptionRequest): Promise<TranscriptionResult> {
+        // Providers without a translate task would silently return an untranslated transcript
+        const chain = request.task === 'translate'
+            ? this.getProviderChain().filter(provider => provider.capabilities.translation)
+            : this.getProviderChain();
+        if (chain.length === 0) {
+            throw new Error('None of the configured transcription providers can translate');
         }
+        let lastError: unknown;
         
-        try {
-            // Convert audio to base64
-            const base64Audio = await this.blobToBase64(audioBlob);
-            
-            // Get provider ID from settings or use default
-            const providerId = this.plugin.settings.aiProviders?.transcription;
-            
-            // Find the provider object by ID
-            const provider = aiProviders.providers.find(p => p.id === providerId);
-            if (!provider) {
-                throw new Error(`AI Provider with ID ${providerId} not found`);
-            }
-            
-            // Build prompt with language instructions if needed
-            let systemPrompt = 'Transcribe the following audio. Just output the transcription as raw text.';
-            if (language && language !== 'auto') {
-                systemPrompt += ` The audio is in ${language} language.`;
+        for (let index = 0; index < chain.length; index++) {
+            const provider = chain[index];
+            try {
+                const result = await retryWithBackoff(
+                    () => this.transcribeWith(provider, audioBlob, request),
+                    {
+                        retries: this.plugin.settings.asrMaxRetries ?? 0,
+                        baseDelayMs: (this.plugin.settings.asrRetryBaseDelaySeconds ?? 2) * 1000,
+                        isRetryable: isTransientRequestError,
+                        onRetry: (error, attempt, delayMs) => {
+                            console.warn(`[VoiceAIJournal] ${provider.name} failed, retry ${attempt} in ${Math.round(delayMs)}ms:`, error);
+                            new Notice(`${provider.name} unavailable, retrying (${attempt})...`);
+                        }
+                    }
+                );
+                return { ...result, provider: provider.name };
+            } catch (error) {
+                lastError = error;
+                const next = chain[index + 1];
+                if (next) {
+                    console.warn(`[VoiceAIJournal] ${provider.name} failed, falling back to ${next.name}:`, error);
+                    new Notice(`${provider.name} failed, trying ${next.name}...`);
+                }
             }
-            
-            // Create options for the AI provider
-            const options = {
-                provider: provider,
-                prompt: 'Transcribe this audio file.',
-                systemPrompt: systemPrompt,
-                files: [{
-                    data: base64Audio,
-                    type: 'audio',
-                    format: 'base64'
-                }]
-            };
-            
-            // Execute the transcription request
-            const streamHandler = await aiProviders.execute(options);
-            
-            // Get the full response text
-            let response = '';
-            await new Promise<string>((resolve, reject) => {
-                streamHandler.onEnd((fullText) => {
-                    response = fullText;
-                    resolve(fullText);
-                });
-                streamHandler.onError((error) => {
-                    reject(error);
-                });
-            });
-            
-            // Log the time taken for AI Provider transcription
-            console.log(`AI Provider transcription completed in ${aiProviderTimer.getFormattedTime()}`);
-            
-            return {
-                text: response,
-                detectedLanguage: undefined,
-                languageCode: language !== 'auto' ? language : undefined,
-                processingTimeMs: aiProviderTimer.getElapsedTime()
-            };
-        } catch (error) {
-            console.error(`AI Provider transcription failed after ${aiProviderTimer.getFormattedTime()}:`, error);
-            throw new Error(`Failed to transcribe with AI Provider: ${error instanceof Error ? error.message : String(error)}`);
         }
+        
+        throw lastError;
     }
     
     /**
-     * Request URL with timeout functionality using Promise.race
-     * @param options The request options for requestUrl
-     * @param timeoutMs Timeout in milliseconds
-     * @returns Promise that resolves with the response or rejects on timeout
+     * Transcribe with a specific provider, converting the audio if that provider needs WAV
      */
-    private async requestUrlWithTimeout(options: any, timeoutMs: number): Promise<any> {
-        const timeoutPromise = new Promise((_, reject) => {
-            setTimeout(() => reject(new Error(`Request timeout after ${timeoutMs}ms`)), timeoutMs);
-        });
+    private async transcribeWith(provider: TranscriptionProvider, audioBlob: Blob, request: TranscriptionRequest): Promise<TranscriptionResult> {
+        // Fallback providers may need a different format than the one prepared for the selected provider
+        const audioFormat = this.plugin.settings.asrAudioFormat?.[provider.id] || DEFAULT_SETTINGS.asrAudioFormat[provider.id] || 'original';
+        if (audioFormat === 'wav16k' && request.fileExtension !== 'wav') {
+            audioBlob = await convertToAsrWav(audioBlob);
+            request = { ...request, fileExtension: 'wav' };
+        }
         
-        return Promise.race([
-            requestUrl(options),
-            timeoutPromise
-        ]);
+        const maxFileSize = provider.capabilities.maxFileSizeBytes;
+        if (maxFileSize && audioBlob.size > maxFileSize) {
+            throw new Error(`Audio is ${(audioBlob.size / 1048576).toFixed(1)} MB, ${provider.name} accepts at most ${(maxFileSize / 1048576).toFixed(1)} MB. Enable splitting of long recordings or use a shorter chunk length.`);
+        }
+        if (this.plugin.settings.enableDiarization && !provider.capabilities.diarization) {
+            console.warn(`[VoiceAIJournal] ${provider.name} does not support speaker diarization, transcript will not have speaker labels`);
+        }
+        
+        return provider.transcribe(audioBlob, request);
     }
-
+    
     /**
-     * Detect the language of an audio file using the local Whisper ASR server
+     * Build the vocabulary prompt for a transcription
      *
-     * @param audioBlob The audio blob to analyze for language detection
-     * @param fileExtension The file extension of the audio file
-     * @returns An object with detected language code and name
+     * A vocabulary note set on the template replaces the global vocabulary note.
+     * @param templateId Template the transcript will be processed with
+     * @returns The prompt, or undefined if no vocabulary is configured
      */
-    private async detectLanguageWithLocalWhisper(audioBlob: Blob, fileExtension = 'wav'): Promise<{code: string, name: string}> {
-        // Get the endpoint from settings
-        const endpoint = this.plugin.settings.localWhisperEndpoint;
-        if (!endpoint) {
-            throw new Error('Local Whisper endpoint not configured');
+    private async getVocabularyPrompt(templateId?: string): Promise<string | undefined> {
+        const template = templateId ? this.plugin.settings.templates.find(t => t.id === templateId) : undefined;
+        const notePath = template?.vocabularyNote || this.plugin.settings.asrVocabularyNote;
+        if (!notePath) {
+            return undefined;
         }
         
-        // Normalize the endpoint URL
-        const baseUrl = endpoint.endsWith('/') ? endpoint.slice(0, -1) : endpoint;
-        
         try {
-            // Convert the audio blob to ArrayBuffer for the request
-            const audioBuffer = await audioBlob.arrayBuffer();
-            
-            // Map file extensions to MIME types
-            const mimeTypeMap: Record<string, string> = {
-                'webm': 'audio/webm',
-                'mp3': 'audio/mpeg',
-                'mp4': 'audio/mp4',
-                'm4a': 'audio/mp4',
-                'wav': 'audio/wav',
-                'ogg': 'audio/ogg',
-                'flac': 'audio/flac'
-            };
-            
-            // Get the correct MIME type based on the file extension
-            const mimeType = mimeTypeMap[fileExtension.toLowerCase()] || 'audio/wav';
-            
-            // Create the multipart/form-data request with a proper boundary
-            const boundary = '----WebKitFormBoundary' + Math.random().toString(16).substring(2);
-            
-            // Create the multipart/form-data parts
-            const encoder = new TextEncoder();
-            const fileHeader = `--${boundary}\r\nContent-Disposition: form-data; name="audio_file"; filename="recording.${fileExtension}"\r\nContent-Type: ${mimeType}\r\n\r\n`;
-            const fileFooter = `\r\n--${boundary}--\r\n`;
-            
-            // Convert parts to Uint8Array
-            const headerArray = encoder.encode(fileHeader);
-            const footerArray = encoder.encode(fileFooter);
-            
-            // Combine the header, audio data, and footer into a single ArrayBuffer
-            const combinedLength = headerArray.length + audioBuffer.byteLength + footerArray.length;
-            const combinedArray = new Uint8Array(combinedLength);
-            combinedArray.set(headerArray, 0);
-            combinedArray.set(new Uint8Array(audioBuffer), headerArray.length);
-            combinedArray.set(footerArray, headerArray.length + audioBuffer.byteLength);
-            
-            // Prepare URL with parameters for language detection
-            const url = `${baseUrl}/detect-language?output=json`;
-            
-            // Send the request with the proper Content-Type header
-            new Notice('Voice AI Journal: Detecting language...');
-            const response = await this.requestUrlWithTimeout({
-                url: url,
-                method: 'POST',
-                body: combinedArray.buffer,
-                headers: {
-                    'Content-Type': `multipart/form-data; boundary=${boundary}`,
-                },
-                throw: false, // Don't throw on error, handle it manually
-            }, 600000); // 10 minutes timeout for language detection
-            
-            // Check for errors
-            if (response.status !== 200) {
-                console.error(`Language detection request failed, status ${response.status}:`, response.text);
-                throw new Error(`Language detection request failed, status ${response.status}`);
-            }
-            
-            // Enhanced logging for debugging
-            console.log('[VoiceAIJournal] Language detection response status:', response.status);
-            console.log('[VoiceAIJournal] Language detection raw response:', response.text);
-            console.log('[VoiceAIJournal] Language detection response type:', typeof response.text);
-            
-            // Parse the JSON response
-            let parsed;
-            try {
-                parsed = response.json ?? JSON.parse(response.text);
-                console.log('[VoiceAIJournal] Parsed language detection response:', parsed);
-            } catch (parseError) {
-                console.error('[VoiceAIJournal] Failed to parse language detection response:', parseError);
-                console.log('[VoiceAIJournal] Raw response that failed to parse:', response.text);
-                // Default to English if parsing fails
-                parsed = { language_code: 'en', language_name: 'english' };
-            }
-            
-            // Get the language code and name
-            // Check for both new API format (language_code) and old API format (detected_language)
-            const languageCode = parsed.language_code || 
-                                (parsed.detected_language_code || 'en');
-            const languageName = parsed.language_name || 
-                                (parsed.detected_language || 'english');
-            
-            console.log(`[VoiceAIJournal] Detected language: ${languageName} (${languageCode})`);
-            
-            return {
-                code: languageCode,
-                name: languageName
-            };
+            const terms = await loadVocabulary(this.plugin, notePath);
+            console.log(`[VoiceAIJournal] Loaded ${terms.length} vocabulary terms from ${notePath}`);
+            return buildVocabularyPrompt(terms);
         } catch (error) {
-            console.error('Language detection error:', error);
-            throw new Error(`Failed to detect language: ${error instanceof Error ? error.message : String(error)}`);
+            console.warn(`[VoiceAIJournal] Could not load vocabulary note ${notePath}, transcribing without vocabulary:`, error);
+            return undefined;
         }
     }
     
     /**
-     * Transcribe audio using local Whisper ASR server
-     * 
-     * @param audioBlob The audio blob to transcribe
-     * @param language Language code for transcription, or 'auto' for automatic detection
-     * @param fileExtension The file extension of the audio file
-     * @returns Transcription result
+     * Split a recording into chunks if it is longer than the configured chunk duration
+     * Recordings that are certainly shorter are not decoded at all
+     * @param audioBlob The audio to transcribe
+     * @param samples The audio already decoded to 16 kHz mono, if available
+     * @returns The chunks, or null if the recording should be sent in one request
      */
-    private async transcribeWithLocalWhisper(audioBlob: Blob, language: string, fileExtension = 'wav'): Promise<TranscriptionResult> {
-        // Start a timer for the Whisper transcription
-        const whisperTimer = startTimer('Whisper Transcription');
-        
-        // Get the endpoint from settings
-        const endpoint = this.plugin.settings.localWhisperEndpoint;
-        if (!endpoint) {
-            throw new Error('Local Whisper endpoint not configured');
+    private async splitForTranscription(audioBlob: Blob, samples: Float32Array | null): Promise<AudioChunk[] | null> {
+        const chunkSeconds = this.plugin.settings.asrChunkDurationSeconds;
+        try {
+            if (!samples) {
+                if (await estimateMaxDuration(audioBlob) <= chunkSeconds) {
+                    return null;
+                }
+                samples = await decodeAsrSamples(audioBlob);
+            }
+            return splitAudioIntoChunks(
+                samples,
+                ASR_SAMPLE_RATE,
+                chunkSeconds,
+                this.plugin.settings.asrChunkOverlapSeconds
+            );
+        } catch (error) {
+            console.warn('[VoiceAIJournal] Could not split recording into chunks, sending it in one request:', error);
+            return null;
         }
+    }
+    
+    /**
+     * Transcribe chunks of a long recording and stitch the transcripts together
+     *
+     * The first chunk is transcribed on its own so the language it detects can be
+     * reused for the remaining chunks, which then run with the configured concurrency.
+     *
+     * @param chunks Overlapping chunks of the recording
+     * @param request Language and prompt for the transcription
+     * @param onProgress Optional callback receiving per-chunk status text
+     */
+    private async transcribeChunks(chunks: AudioChunk[], request: TranscriptionRequest, onProgress?: (statusText: string) => void): Promise<TranscriptionResult> {
+        let completed = 0;
+        const reportProgress = () => {
+            onProgress?.(`Transcribing audio (chunk ${Math.min(completed + 1, chunks.length)}/${chunks.length})...`);
+        };
         
-        // Normalize the endpoint URL
-        const baseUrl = endpoint.endsWith('/') ? endpoint.slice(0, -1) : endpoint;
+        reportProgress();
+        const first = await this.transcribeWithProvider(chunks[0].blob, request);
+        completed++;
         
-        // Variables for language detection
-        let detectedLanguage: string | undefined;
-        let languageCode: string | undefined;
+        // Reuse the language of the first chunk so all chunks are transcribed consistently
+        const chunkLanguage = request.language === 'auto' ? (first.languageCode || 'auto') : request.language;
         
-        // If language is set to 'auto', try to detect the language first
-        if (language === 'auto') {
-            try {
-                console.log('[VoiceAIJournal] Starting language detection...');
-                const langDetection = await this.detectLanguageWithLocalWhisper(audioBlob, fileExtension);
-                detectedLanguage = langDetection.name;
-                languageCode = langDetection.code;
-                console.log(`[VoiceAIJournal] Using detected language: ${detectedLanguage} (${languageCode})`);
-                
-                // Add a notification for the user about the detected language
-                new Notice(`Detected language: ${detectedLanguage}`);
-            } catch (error) {
-                console.warn('[VoiceAIJournal] Language detection failed, proceeding without language specification:', error);
-                new Notice('Language detection failed, using default language');
+        const rest = await mapWithConcurrency(
+            chunks.slice(1),
+            this.plugin.settings.asrChunkConcurrency,
+            async (chunk) => {
+                reportProgress();
+                const result = await this.transcribeWithProvider(chunk.blob, { ...request, language: chunkLanguage });
+                completed++;
+                console.log(`[VoiceAIJournal] Transcribed chunk ${chunk.index + 1}/${chunks.length} (${Math.round(chunk.startMs / 1000)}s-${Math.round(chunk.endMs / 1000)}s)`);
+                return result;
             }
-        } else {
-            console.log(`[VoiceAIJournal] Using specified language: ${language}`);
+        );
+        
+        return this.mergeChunkResults(chunks, [first, ...rest]);
+    }
+    
+    /**
+     * Combine the transcriptions of consecutive chunks of one recording into a single result
+     *
+     * @param chunks The chunks in recording order, overlapping or not
+     * @param results The transcription of each chunk
+     */
+    mergeChunkResults(chunks: AudioChunk[], results: TranscriptionResult[]): TranscriptionResult {
+        const first = results[0];
+        // Chunks may have been transcribed by different providers after a fallback
+        const providers = results.map(result => result.provider).filter((name, i, names): name is string => !!name && names.indexOf(name) === i);
+        return {
+            text: stitchTranscripts(
+                results.map(result => result.text),
+                chunks.map((chunk, index) => index > 0 ? Math.max(0, chunks[index - 1].endMs - chunk.startMs) / 1000 : 0)
+            ),
+            detectedLanguage: first.detectedLanguage,
+            languageCode: first.languageCode,
+            provider: providers.join(', ') || undefined,
+            task: first.task,
+            segments: this.mergeChunkSegments(chunks, results)
+        };
+    }
+    
+    /**
+     * Merge the segments of overlapping chunks into one timeline
+     *
+     * Segment times are shifted by the chunk position, and each overlap is split at
+     * its midpoint so segments repeated in both chunks are only kept once.
+     *
+     * @returns The merged segments, or undefined if any chunk has no segment timings
+     */
+    private mergeChunkSegments(chunks: AudioChunk[], results: TranscriptionResult[]): TranscriptionSegment[] | undefined {
+        if (results.some(result => !result.segments)) {
+            return undefined;
         }
         
+        const merged: TranscriptionSegment[] = [];
+        chunks.forEach((chunk, index) => {
+            const previous = chunks[index - 1];
+            const next = chunks[index + 1];
+            const from = previous ? (chunk.startMs + previous.endMs) / 2000 : 0;
+            const to = next ? (next.startMs + chunk.endMs) / 2000 : Infinity;
+            
+            for (const segment of offsetSegments(results[index].segments || [], chunk.startMs / 1000)) {
+                if (segment.start >= from && segment.start < to) {
+                    // Diarization runs per chunk, so the same label may refer to different people in different chunks
+                    merged.push(segment.speaker ? { ...segment, speaker: getChunkSpeakerLabel(segment.speaker, index + 1) } : segment);
+                }
+            }
+        });
+        return merged;
+    }
+
+    /**
+     * Transcribe audio file from vault
+     * @param file The file to transcribe
+     * @param language Language code for transcription, or 'auto' for automatic detection
+     * @param options Progress callback and template for the transcription
+     * @returns Promise that resolves to transcription text
+     */
+    async transcribeAudioFileFromVault(file: TFile, language = 'auto', options: TranscribeOptions = {}): Promise<TranscriptionResult> {
         try {
-            // Convert the audio blob to ArrayBuffer for the request
-            const audioBuffer = await audioBlob.arrayBuffer();
+            // Read the file from the vault
+            const arrayBuffer = await this.plugin.app.vault.readBinary(file);
             
-            // Map file extensions to MIME types
-            const mimeTypeMap: Record<string, string> = {
-                'webm': 'audio/webm',
-                'mp3': 'audio/mpeg',
-                'mp4': 'audio/mp4',
-                'm4a': 'audio/mp4',
-                'wav': 'audio/wav',
-                'ogg': 'audio/ogg',
-                'flac': 'audio/flac'
-            };
+            // Get the file extension
+            const extension = file.extension.toLowerCase();
             
             // Get the correct MIME type based on the file extension
-            const mimeType = mimeTypeMap[fileExtension.toLowerCase()] || 'audio/wav';
-            
-            // Create the multipart/form-data request with a proper boundary
-            const boundary = '----WebKitFormBoundary' + Math.random().toString(16).substring(2);
-            
-            // Create the multipart/form-data parts
-            const encoder = new TextEncoder();
-            const fileHeader = `--${boundary}\r\nContent-Disposition: form-data; name="audio_file"; filename="recording.${fileExtension}"\r\nContent-Type: ${mimeType}\r\n\r\n`;
-            const fileFooter = `\r\n--${boundary}--\r\n`;
-            
-            // Convert parts to Uint8Array
-            const headerArray = encoder.encode(fileHeader);
-            const footerArray = encoder.encode(fileFooter);
-            
-            // Combine the header, audio data, and footer into a single ArrayBuffer
-            const combinedLength = headerArray.length + audioBuffer.byteLength + footerArray.length;
-            const combinedArray = new Uint8Array(combinedLength);
-            combinedArray.set(headerArray, 0);
-            combinedArray.set(new Uint8Array(audioBuffer), headerArray.length);
-            combinedArray.set(footerArray, headerArray.length + audioBuffer.byteLength);
-            
-            // Prepare URL with parameters
-            const url = `${baseUrl}/asr?output=json`;
-            // We need to use the language code for the ASR API, not the full language name
-            const languageToUse = languageCode || (language !== 'auto' ? language : undefined);
+            const mimeType = AUDIO_MIME_TYPES[extension] || 'audio/wav';
             
-            // Add language parameter if we have a language code
-            if (languageToUse) {
-                // Log the URL we're constructing for debugging
-                console.log(`[VoiceAIJournal] Adding language parameter to the ASR request: ${languageToUse}`);
-            } else {
-                console.log('[VoiceAIJournal] No language parameter added, using server default');
-            }
-            
-            // Log the final URL for debugging
-            console.log(`[VoiceAIJournal] Sending transcription request to: ${url}`);
-            
-            // Send the request with the proper Content-Type header
-            new Notice('Voice AI Journal: Transcribing audio...');
-            const response = await this.requestUrlWithTimeout({
-                url: url,
-                method: 'POST',
-                body: combinedArray.buffer,
-                headers: {
-                    'Content-Type': `multipart/form-data; boundary=${boundary}`,
-                },
-                throw: false, // Don't throw on error, handle it manually
-            }, 600000); // 10 minutes timeout for transcription
-            
-            // Check for errors
-            if (response.status !== 200) {
-                console.error(`Transcription request failed, status ${response.status}:`, response.text);
-                throw new Error(`Transcription request failed, status ${response.status}`);
-            }
-            
-            console.debug('[VoiceAIJournal] ASR server response status:', response.status);
-            console.debug('[VoiceAIJournal] ASR server raw response:', response.text);
-            
-            // Parse the JSON response (fall back to manual parse if needed)
-            interface WhisperResponse {
-                text?: string;
-                segments?: Array<{text: string}>;
-            }
-            
-            let parsed: WhisperResponse;
-            try {
-                parsed = response.json ?? JSON.parse(response.text);
-            } catch (err) {
-                console.error('[VoiceAIJournal] Failed to parse ASR JSON response:', err, response.text);
-                throw err;
-            }
-            
-            // Get the transcription text
-            let text = '';
-            if (parsed.text) {
-                text = parsed.text;
-            } else if (Array.isArray(parsed.segments)) {
-                text = parsed.segments.map(seg => seg.text).join(' ');
-            }
-            
-            // Log the transcript and language information
-            console.log('[VoiceAIJournal] ASR transcript:', text);
-            console.log(`[VoiceAIJournal] Detected language: ${detectedLanguage || 'not detected'} (${languageCode || 'unknown code'})`);
-            
-            // Log the time taken for Whisper transcription
-            const transcriptionTime = whisperTimer.getFormattedTime();
-            console.log(`[VoiceAIJournal] Whisper transcription completed in ${transcriptionTime}`);
+            // Convert to blob with the correct MIME type
+            const blob = new Blob([arrayBuffer], { type: mimeType });
             
-            return { 
-                text: text,
-                detectedLanguage: detectedLanguage,
-                languageCode: languageCode,
-                processingTimeMs: whisperTimer.getElapsedTime()
-            };
+            // Transcribe using the selected method, passing the file extension
+            return await this.transcribeAudio(blob, language, extension, options);
         } catch (error) {
-            console.error('Local Whisper transcription error:', error);
-            throw new Error(`Failed to transcribe with Local Whisper: ${error instanceof Error ? error.message : String(error)}`);
+            console.error('Failed to transcribe audio file from vault:', error);
+            throw new Error(`Failed to transcribe audio file: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
-    
-    /**
-     * Convert a Blob to a base64 string
-     * @param blob The blob to convert
-     * @returns A Promise that resolves to the base64 string
-     */
-    private blobToBase64(blob: Blob): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                if (typeof reader.result === 'string') {
-                    // Remove the data URL prefix (e.g., "data:audio/wav;base64,")
-                    const base64 = reader.result.split(',')[1];
-                    resolve(base64);
-                } else {
-                    reject(new Error('FileReader did not return a string'));
-                }
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
-        });
-    }
+}
+
+/**
+ * Shift segment timings by a fixed offset
+ * @param segments Segments to shift
+ * @param offsetSeconds Offset to add to start and end times
+ */
+function offsetSegments(segments: TranscriptionSegment[], offsetSeconds: number): TranscriptionSegment[] {
+    return segments.map(segment => ({
+        ...segment,
+        start: segment.start + offsetSeconds,
+        end: segment.end + offsetSeconds,
+        words: segment.words?.map(word => ({ ...word, start: word.start + offsetSeconds, end: word.end + offsetSeconds }))
+    }));
 }
@@ -0,0 +1,134 @@
+import type VoiceAIJournalPlugin from '../../../main';
+import { startTimer } from '../../utils/timerUtils';
+import type {
+    TranscriptionProvider,
+    TranscriptionCapabilities,
+    TranscriptionRequest,
+    TranscriptionResult
+} from './TranscriptionProvider';
+
+/**
+ * Transcription with a multimodal model configured in the AI Providers plugin
+ */
+export class AIProvidersTranscriptionProvider implements TranscriptionProvider {
+    readonly id = 'aiProviders';
+    readonly name = 'AI Providers Plugin';
+    readonly capabilities: TranscriptionCapabilities = {
+        languageDetection: false,
+        timestamps: false,
+        diarization: false,
+        translation: false
+    };
+
+    /**
+     * @param plugin Plugin instance
+     */
+    constructor(private plugin: VoiceAIJournalPlugin) {}
+
+    async transcribe(audioBlob: Blob, request: TranscriptionRequest): Promise<TranscriptionResult> {
+        return this.transcribeWithAIProviders(audioBlob, request.language, request.prompt);
+    }
+
+    /**
+     * Transcribe audio to text using AI Providers
+     *
+     * @param audioBlob Audio blob to transcribe
+     * @param language Language code for transcription
+     * @param vocabulary Optional names and terms that may appear in the audio
+     * @returns Promise that resolves to a TranscriptionResult
+     */
+    private async transcribeWithAIProviders(audioBlob: Blob, language: string, vocabulary?: string): Promise<TranscriptionResult> {
+        // Start a timer for AI Provider transcription
+        const aiProviderTimer = startTimer('AI Provider Transcription');
+        
+        const aiProviders = this.plugin.aiProviders;
+        if (!aiProviders) {
+            throw new Error('AI Providers not initialized');
+        }
+        
+        try {
+            // Convert audio to base64
+            const base64Audio = await this.blobToBase64(audioBlob);
+            
+            // Get provider ID from settings or use default
+            const providerId = this.plugin.settings.aiProviders?.transcription;
+            
+            // Find the provider object by ID
+            const provider = aiProviders.providers.find(p => p.id === providerId);
+            if (!provider) {
+                throw new Error(`AI Provider with ID ${providerId} not found`);
+            }
+            
+            // Build prompt with language instructions if needed
+            let systemPrompt = 'Transcribe the following audio. Just output the transcription as raw text.';
+            if (language && language !== 'auto') {
+                systemPrompt += ` The audio is in ${language} language.`;
+            }
+            if (vocabulary) {
+                systemPrompt += ` The following names and terms may appear, use this spelling: ${vocabulary}.`;
+            }
+            
+            // Create options for the AI provider
+            const options = {
+                provider: provider,
+                prompt: 'Transcribe this audio file.',
+                systemPrompt: systemPrompt,
+                files: [{
+                    data: base64Audio,
+                    type: 'audio',
+                    format: 'base64'
+                }]
+            };
+            
+            // Execute the transcription request
+            const streamHandler = await aiProviders.execute(options);
+            
+            // Get the full response text
+            let response = '';
+            await new Promise<string>((resolve, reject) => {
+                streamHandler.onEnd((fullText) => {
+                    response = fullText;
+                    resolve(fullText);
+                });
+                streamHandler.onError((error) => {
+                    reject(error);
+                });
+            });
+            
+            // Log the time taken for AI Provider transcription
+            console.log(`AI Provider transcription completed in ${aiProviderTimer.getFormattedTime()}`);
+            
+            return {
+                text: response,
+                detectedLanguage: undefined,
+                languageCode: language !== 'auto' ? language : undefined,
+                processingTimeMs: aiProviderTimer.getElapsedTime()
+            };
+        } catch (error) {
+            console.error(`AI Provider transcription failed after ${aiProviderTimer.getFormattedTime()}:`, error);
+            throw new Error(`Failed to transcribe with AI Provider: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Convert a Blob to a base64 string
+     * @param blob The blob to convert
+     * @returns A Promise that resolves to the base64 string
+     */
+    private blobToBase64(blob: Blob): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onloadend = () => {
+                if (typeof reader.result === 'string') {
+                    // Remove the data URL prefix (e.g., "data:audio/wav;base64,")
+                    const base64 = reader.result.split(',')[1];
+                    resolve(base64);
+                } else {
+                    reject(new Error('FileReader did not return a string'));
+                }
+            };
+            reader.onerror = reject;
+            reader.readAsDataURL(blob);
+        });
+    }
+}
@@ -0,0 +1,352 @@
+import { Notice } from 'obsidian';
+import type VoiceAIJournalPlugin from '../../../main';
+import { startTimer } from '../../utils/timerUtils';
+import { buildMultipartBody, requestUrlWithTimeout, AUDIO_MIME_TYPES } from '../../utils/requestUtils';
+import { resolveLanguage } from '../../utils/languageUtils';
+import { extractLeadingExcerpt } from '../../audio/AudioConverter';
+import { parseSubtitles, parseWhisperTsv } from '../../utils/subtitleUtils';
+import { DEFAULT_SETTINGS } from '../../settings/settings';
+import type {
+    TranscriptionProvider,
+    TranscriptionCapabilities,
+    TranscriptionRequest,
+    TranscriptionResult,
+    TranscriptionSegment,
+    WhisperOptions,
+    WhisperOutputFormat
+} from './TranscriptionProvider';
+
+/**
+ * JSON response of the /asr route
+ */
+interface WhisperResponse {
+    text?: string;
+    segments?: Array<{
+        text: string,
+        start?: number,
+        end?: number,
+        speaker?: string,
+        words?: Array<{word: string, start: number, end: number, probability?: number}>,
+        avg_logprob?: number,
+        no_speech_prob?: number
+    }>;
+    language?: string; // Language used for the transcription, detected if none was given
+}
+
+/**
+ * Map a text-based /asr response (txt, vtt, srt, tsv) to the shape of the JSON response
+ */
+function parseTextOutput(content: string, output: WhisperOutputFormat): WhisperResponse {
+    if (output === 'txt') {
+        return { text: content.trim() };
+    }
+    const cues = output === 'tsv' ? parseWhisperTsv(content) : parseSubtitles(content);
+    return { segments: cues };
+}
+
+/**
+ * Whisper itself detects the language from the first 30 seconds of audio
+ */
+const LANGUAGE_DETECTION_EXCERPT_SECONDS = 30;
+
+/**
+ * Transcription with a self-hosted whisper-asr-webservice server
+ * (see https://github.com/ahmetoner/whisper-asr-webservice)
+ */
+export class LocalWhisperProvider implements TranscriptionProvider {
+    readonly id = 'localWhisper';
+    readonly name = 'Local Whisper API';
+    readonly capabilities: TranscriptionCapabilities = {
+        languageDetection: true,
+        timestamps: true,
+        diarization: true, // With the whisperX engine
+        translation: true
+    };
+
+    /**
+     * @param plugin Plugin instance
+     */
+    constructor(private plugin: VoiceAIJournalPlugin) {}
+
+    async transcribe(audioBlob: Blob, request: TranscriptionRequest): Promise<TranscriptionResult> {
+        const overrides = request.task ? { ...request.whisperOptions, task: request.task } : request.whisperOptions;
+        return this.transcribeWithLocalWhisper(audioBlob, request.language, request.fileExtension, request.prompt, overrides);
+    }
+
+    /**
+     * Detect the language of an audio file using the local Whisper ASR server
+     *
+     * @param audioBlob The audio blob to analyze for language detection
+     * @param fileExtension The file extension of the audio file
+     * @returns An object with detected language code and name
+     */
+    private async detectLanguageWithLocalWhisper(audioBlob: Blob, fileExtension = 'wav'): Promise<{code: string, name: string}> {
+        // Get the endpoint from settings
+        const endpoint = this.plugin.settings.localWhisperEndpoint;
+        if (!endpoint) {
+            throw new Error('Local Whisper endpoint not configured');
+        }
+        
+        // Normalize the endpoint URL
+        const baseUrl = endpoint.endsWith('/') ? endpoint.slice(0, -1) : endpoint;
+        
+        try {
+            // Upload the audio as the audio_file form field
+            const extension = fileExtension.toLowerCase();
+            const { body, contentType } = buildMultipartBody({}, {
+                name: 'audio_file',
+                filename: `recording.${extension}`,
+                contentType: AUDIO_MIME_TYPES[extension] || 'audio/wav',
+                data: await audioBlob.arrayBuffer()
+            });
+            
+            // Prepare URL with parameters for language detection
+            const url = `${baseUrl}/detect-language?output=json`;
+            
+            // Send the request with the proper Content-Type header
+            new Notice('Voice AI Journal: Detecting language...');
+            const response = await requestUrlWithTimeout({
+                url: url,
+                method: 'POST',
+                body,
+                headers: {
+                    'Content-Type': contentType,
+                },
+                throw: false, // Don't throw on error, handle it manually
+            }, 600000); // 10 minutes timeout for language detection
+            
+            // Check for errors
+            if (response.status !== 200) {
+                console.error(`Language detection request failed, status ${response.status}:`, response.text);
+                throw new Error(`Language detection request failed, status ${response.status}`);
+            }
+            
+            // Enhanced logging for debugging
+            console.log('[VoiceAIJournal] Language detection response status:', response.status);
+            console.log('[VoiceAIJournal] Language detection raw response:', response.text);
+            console.log('[VoiceAIJournal] Language detection response type:', typeof response.text);
+            
+            // Parse the JSON response
+            let parsed;
+            try {
+                parsed = response.json ?? JSON.parse(response.text);
+                console.log('[VoiceAIJournal] Parsed language detection response:', parsed);
+            } catch (parseError) {
+                console.error('[VoiceAIJournal] Failed to parse language detection response:', parseError);
+                console.log('[VoiceAIJournal] Raw response that failed to parse:', response.text);
+                // Default to English if parsing fails
+                parsed = { language_code: 'en', language_name: 'english' };
+            }
+            
+            // Get the language code and name
+            // Check for both new API format (language_code) and old API format (detected_language)
+            const languageCode = parsed.language_code || 
+                                (parsed.detected_language_code || 'en');
+            const languageName = parsed.language_name || 
+                                (parsed.detected_language || 'english');
+            
+            console.log(`[VoiceAIJournal] Detected language: ${languageName} (${languageCode})`);
+            
+            return {
+                code: languageCode,
+                name: languageName
+            };
+        } catch (error) {
+            console.error('Language detection error:', error);
+            throw new Error(`Failed to detect language: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    /**
+     * Transcribe audio using local Whisper ASR server
+     * 
+     * @param audioBlob The audio blob to transcribe
+     * @param language Language code for transcription, or 'auto' for automatic detection
+     * @param fileExtension The file extension of the audio file
+     * @param initialPrompt Optional vocabulary hint passed as initial_prompt
+     * @param overrides Optional per-recording overrides of the Whisper options in the settings
+     * @returns Transcription result
+     */
+    private async transcribeWithLocalWhisper(audioBlob: Blob, language: string, fileExtension = 'wav', initialPrompt?: string, overrides?: Partial<WhisperOptions>): Promise<TranscriptionResult> {
+        // Start a timer for the Whisper transcription
+        const whisperTimer = startTimer('Whisper Transcription');
+        
+        // Get the endpoint from settings
+        const endpoint = this.plugin.settings.localWhisperEndpoint;
+        if (!endpoint) {
+            throw new Error('Local Whisper endpoint not configured');
+        }
+        
+        // Normalize the endpoint URL
+        const baseUrl = endpoint.endsWith('/') ? endpoint.slice(0, -1) : endpoint;
+        
+        // Variables for language detection
+        let detectedLanguage: string | undefined;
+        let languageCode: string | undefined;
+        
+        // With 'auto', either detect the language on a short excerpt before transcribing,
+        // or leave detection to the ASR request and read the language from its response
+        if (language === 'auto' && this.plugin.settings.asrLanguageDetection === 'excerpt') {
+            try {
+                console.log('[VoiceAIJournal] Starting language detection...');
+                const excerpt = await extractLeadingExcerpt(audioBlob, LANGUAGE_DETECTION_EXCERPT_SECONDS);
+                const langDetection = await this.detectLanguageWithLocalWhisper(excerpt, 'wav');
+                detectedLanguage = langDetection.name;
+                languageCode = langDetection.code;
+                console.log(`[VoiceAIJournal] Using detected language: ${detectedLanguage} (${languageCode})`);
+                
+                // Add a notification for the user about the detected language
+                new Notice(`Detected language: ${detectedLanguage}`);
+            } catch (error) {
+                console.warn('[VoiceAIJournal] Language detection failed, proceeding without language specification:', error);
+                new Notice('Language detection failed, using default language');
+            }
+        } else if (language === 'auto') {
+            console.log('[VoiceAIJournal] Language will be detected during transcription');
+        } else {
+            console.log(`[VoiceAIJournal] Using specified language: ${language}`);
+        }
+        
+        try {
+            // Upload the audio as the audio_file form field
+            const extension = fileExtension.toLowerCase();
+            const { body, contentType } = buildMultipartBody({}, {
+                name: 'audio_file',
+                filename: `recording.${extension}`,
+                contentType: AUDIO_MIME_TYPES[extension] || 'audio/wav',
+                data: await audioBlob.arrayBuffer()
+            });
+            
+            // Prepare URL with parameters
+            const asrOptions: WhisperOptions = {
+                ...DEFAULT_SETTINGS.localWhisperOptions,
+                ...this.plugin.settings.localWhisperOptions,
+                ...overrides
+            };
+            let url = `${baseUrl}/asr?output=${asrOptions.output}&task=${asrOptions.task}&encode=${asrOptions.encode}`;
+            if (asrOptions.vadFilter) {
+                url += '&vad_filter=true';
+            }
+            if (asrOptions.wordTimestamps) {
+                url += '&word_timestamps=true';
+            }
+            
+            // Ask diarizing backends (whisperX engine) to label speakers on the segments
+            if (this.plugin.settings.enableDiarization) {
+                url += '&diarize=true';
+            }
+            
+            // Configured initial prompt followed by the vocabulary hint for names and jargon
+            const prompt = [asrOptions.initialPrompt, initialPrompt].filter(Boolean).join(' ');
+            if (prompt) {
+                url += `&initial_prompt=${encodeURIComponent(prompt)}`;
+            }
+            // We need to use the language code for the ASR API, not the full language name
+            const languageToUse = languageCode || (language !== 'auto' ? language : undefined);
+            
+            // Add language parameter if we have a language code
+            if (languageToUse) {
+                url += `&language=${encodeURIComponent(languageToUse)}`;
+                console.log(`[VoiceAIJournal] Adding language parameter to the ASR request: ${languageToUse}`);
+            } else {
+                console.log('[VoiceAIJournal] No language parameter added, using server default');
+            }
+            
+            // Log the final URL for debugging
+            console.log(`[VoiceAIJournal] Sending transcription request to: ${url}`);
+            
+            // Send the request with the proper Content-Type header
+            new Notice('Voice AI Journal: Transcribing audio...');
+            const response = await requestUrlWithTimeout({
+                url: url,
+                method: 'POST',
+                body,
+                headers: {
+                    'Content-Type': contentType,
+                },
+                throw: false, // Don't throw on error, handle it manually
+            }, 600000); // 10 minutes timeout for transcription
+            
+            // Check for errors
+            if (response.status !== 200) {
+                console.error(`Transcription request failed, status ${response.status}:`, response.text);
+                throw new Error(`Transcription request failed, status ${response.status}`);
+            }
+            
+            console.debug('[VoiceAIJournal] ASR server response status:', response.status);
+            console.debug('[VoiceAIJournal] ASR server raw response:', response.text);
+            
+            // Parse the response (fall back to manual parse if needed)
+            let parsed: WhisperResponse;
+            if (asrOptions.output === 'json') {
+                try {
+                    parsed = response.json ?? JSON.parse(response.text);
+                } catch (err) {
+                    console.error('[VoiceAIJournal] Failed to parse ASR JSON response:', err, response.text);
+                    throw err;
+                }
+            } else {
+                // Text-based formats carry no language, at most text and segment timings
+                parsed = parseTextOutput(response.text, asrOptions.output);
+            }
+            
+            // Get the transcription text
+            let text = '';
+            if (parsed.text) {
+                text = parsed.text;
+            } else if (Array.isArray(parsed.segments)) {
+                text = parsed.segments.map(seg => seg.text).join(' ');
+            }
+            
+            // Keep segment timings for timestamped transcripts
+            let segments: TranscriptionSegment[] | undefined;
+            if (Array.isArray(parsed.segments)) {
+                segments = parsed.segments
+                    .filter(seg => typeof seg.start === 'number' && typeof seg.end === 'number')
+                    .map(seg => ({
+                        start: seg.start as number,
+                        end: seg.end as number,
+                        text: seg.text.trim(),
+                        speaker: seg.speaker || undefined,
+                        words: seg.words?.map(word => ({
+                            word: word.word.trim(),
+                            start: word.start,
+                            end: word.end,
+                            probability: word.probability
+                        })),
+                        avgLogprob: seg.avg_logprob,
+                        noSpeechProb: seg.no_speech_prob
+                    }));
+            }
+            
+            // Take the language from the response if it was not known before the request
+            if (!languageCode && parsed.language) {
+                const resolved = resolveLanguage(parsed.language);
+                languageCode = resolved.code;
+                detectedLanguage = resolved.name;
+                if (detectedLanguage) {
+                    new Notice(`Detected language: ${detectedLanguage}`);
+                }
+            }
+            
+            // Log the transcript and language information
+            console.log('[VoiceAIJournal] ASR transcript:', text);
+            console.log(`[VoiceAIJournal] Detected language: ${detectedLanguage || 'not detected'} (${languageCode || 'unknown code'})`);
+            
+            // Log the time taken for Whisper transcription
+            const transcriptionTime = whisperTimer.getFormattedTime();
+            console.log(`[VoiceAIJournal] Whisper transcription completed in ${transcriptionTime}`);
+            
+            return { 
+                text: text,
+                detectedLanguage: detectedLanguage,
+                languageCode: languageCode,
+                processingTimeMs: whisperTimer.getElapsedTime(),
+                segments: segments,
+                task: asrOptions.task
+            };
+        } catch (error) {
+            console.error('Local Whisper transcription error:', error);
+            throw new Error(`Failed to transcribe with Local Whisper: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
@@ -0,0 +1,119 @@
+import type VoiceAIJournalPlugin from '../../../main';
+import { startTimer } from '../../utils/timerUtils';
+import { buildMultipartBody, requestUrlWithTimeout, AUDIO_MIME_TYPES } from '../../utils/requestUtils';
+import { resolveLanguage } from '../../utils/languageUtils';
+import type {
+    TranscriptionProvider,
+    TranscriptionCapabilities,
+    TranscriptionRequest,
+    TranscriptionResult,
+    TranscriptionSegment
+} from './TranscriptionProvider';
+
+/**
+ * Response of /audio/transcriptions with response_format=verbose_json
+ * (servers that ignore the format only return `text`)
+ */
+interface VerboseTranscriptionResponse {
+    text?: string;
+    language?: string; // Name ('german') or code ('de'), depending on the server
+    segments?: Array<{ start: number; end: number; text: string; avg_logprob?: number; no_speech_prob?: number }>;
+}
+
+/**
+ * Transcription with any server implementing the OpenAI `audio/transcriptions` API
+ * (OpenAI, faster-whisper-server, speaches, LocalAI, ...)
+ */
+export class OpenAICompatibleProvider implements TranscriptionProvider {
+    readonly id = 'openAICompatible';
+    readonly name = 'OpenAI-compatible API';
+    readonly capabilities: TranscriptionCapabilities = {
+        languageDetection: true,
+        timestamps: true,
+        diarization: false,
+        translation: true // Through the audio/translations endpoint
+    };
+
+    /**
+     * @param plugin Plugin instance
+     */
+    constructor(private plugin: VoiceAIJournalPlugin) {}
+
+    async transcribe(audioBlob: Blob, request: TranscriptionRequest): Promise<TranscriptionResult> {
+        const timer = startTimer('OpenAI-compatible Transcription');
+        const settings = this.plugin.settings;
+
+        const baseUrl = (settings.openAIAsrBaseUrl || '').trim().replace(/\/+$/, '');
+        if (!baseUrl) {
+            throw new Error('OpenAI-compatible transcription base URL not configured');
+        }
+
+        try {
+            const extension = request.fileExtension.toLowerCase();
+            const translate = request.task === 'translate';
+            const { body, contentType } = buildMultipartBody(
+                {
+                    model: settings.openAIAsrModel,
+                    response_format: 'verbose_json',
+                    // Translations always detect the spoken language
+                    language: request.language !== 'auto' && !translate ? request.language : undefined,
+                    prompt: [settings.openAIAsrPrompt, request.prompt].filter(Boolean).join(' ') || undefined
+                },
+                {
+                    name: 'file',
+                    filename: `recording.${extension}`,
+                    contentType: AUDIO_MIME_TYPES[extension] || 'audio/wav',
+                    data: await audioBlob.arrayBuffer()
+                }
+            );
+
+            const headers: Record<string, string> = { 'Content-Type': contentType };
+            if (settings.openAIAsrApiKey) {
+                headers['Authorization'] = `Bearer ${settings.openAIAsrApiKey}`;
+            }
+
+            const url = `${baseUrl}/audio/${translate ? 'translations' : 'transcriptions'}`;
+            console.log(`[VoiceAIJournal] Sending transcription request to: ${url} (model: ${settings.openAIAsrModel})`);
+            const response = await requestUrlWithTimeout({
+                url,
+                method: 'POST',
+                body,
+                headers,
+                throw: false
+            }, 600000); // 10 minutes timeout for transcription
+
+            if (response.status !== 200) {
+                console.error(`Transcription request failed, status ${response.status}:`, response.text);
+                throw new Error(`Transcription request failed, status ${response.status}`);
+            }
+
+            const parsed: VerboseTranscriptionResponse = response.json ?? JSON.parse(response.text);
+
+            const segments: TranscriptionSegment[] | undefined = Array.isArray(parsed.segments)
+                ? parsed.segments.map(seg => ({
+                    start: seg.start,
+                    end: seg.end,
+                    text: seg.text.trim(),
+                    avgLogprob: seg.avg_logprob,
+                    noSpeechProb: seg.no_speech_prob
+                }))
+                : undefined;
+            const text = parsed.text ?? (segments || []).map(seg => seg.text).join(' ');
+
+            const language = resolveLanguage(parsed.language);
+            console.log(`[VoiceAIJournal] OpenAI-compatible transcription completed in ${timer.getFormattedTime()}, language: ${language.name || 'not reported'}`);
+
+            return {
+                text,
+                detectedLanguage: language.name,
+                languageCode: language.code || (request.language !== 'auto' ? request.language : undefined),
+                processingTimeMs: timer.getElapsedTime(),
+                segments,
+                task: translate ? 'translate' : 'transcribe'
+            };
+        } catch (error) {
+            console.error('OpenAI-compatible transcription error:', error);
+            throw new Error(`Failed to transcribe with OpenAI-compatible API: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
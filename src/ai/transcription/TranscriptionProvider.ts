@@ -0,0 +1,113 @@
+/**
+ * Transcription provider interface
+ *
+ * Every speech recognition backend implements this interface and is registered
+ * in the TranscriptionProviderRegistry. ASRManager handles the shared pipeline
+ * (conversion, silence trimming, chunking) and only calls `transcribe` with the
+ * prepared audio, so new backends can be added without touching the pipeline.
+ */
+
+import type { CorrectionReportEntry } from '../../utils/transcriptCorrections';
+import type { HallucinationFinding } from '../../utils/hallucinationFilter';
+import type { LanguageShare } from '../../utils/languageDetection';
+
+/**
+ * A timed segment of a transcript
+ */
+export interface TranscriptionSegment {
+    start: number; // Start time in seconds, relative to the saved recording
+    end: number; // End time in seconds
+    text: string;
+    speaker?: string; // Speaker label from diarizing backends (e.g. 'SPEAKER_00')
+    words?: TranscriptionWord[]; // Word timings, if requested from the backend
+    avgLogprob?: number; // Average log probability of the decoded tokens (Whisper `avg_logprob`)
+    noSpeechProb?: number; // Probability that the segment contains no speech (Whisper `no_speech_prob`)
+    language?: string; // ISO code of the language spoken in this segment, for code-switched recordings
+}
+
+/**
+ * A timed word within a transcript segment
+ */
+export interface TranscriptionWord {
+    word: string;
+    start: number; // Start time in seconds
+    end: number; // End time in seconds
+    probability?: number; // Recognition confidence between 0 and 1
+}
+
+/**
+ * Result of a transcription operation
+ */
+export interface TranscriptionResult {
+    text: string;
+    detectedLanguage?: string; // Full language name (e.g., 'English', 'German')
+    languageCode?: string; // ISO language code (e.g., 'en', 'de')
+    languages?: LanguageShare[]; // Languages spoken in the recording, dominant language first
+    processingTimeMs?: number; // Processing time in milliseconds
+    segments?: TranscriptionSegment[]; // Segment timings, if the provider returns them
+    corrections?: CorrectionReportEntry[]; // Correction rules that changed the transcript after ASR
+    hallucinations?: HallucinationFinding[]; // Passages removed as likely hallucinations
+    provider?: string; // Name of the provider that produced the transcript (after retries and fallbacks)
+    task?: WhisperTask; // 'translate' if the text was translated to English by the backend
+}
+
+/**
+ * Whisper task: transcribe in the spoken language, or translate to English
+ */
+export type WhisperTask = 'transcribe' | 'translate';
+
+/**
+ * Response formats of Whisper backends
+ */
+export type WhisperOutputFormat = 'json' | 'txt' | 'vtt' | 'srt' | 'tsv';
+
+/**
+ * Decoding options of Whisper backends (whisper-asr-webservice naming in comments)
+ */
+export interface WhisperOptions {
+    task: WhisperTask; // task
+    encode: boolean; // encode: let the server convert the audio with ffmpeg
+    vadFilter: boolean; // vad_filter: skip silent parts before decoding
+    wordTimestamps: boolean; // word_timestamps: return timings per word
+    initialPrompt: string; // initial_prompt: text to condition the decoder on
+    output: WhisperOutputFormat; // output
+}
+
+/**
+ * What a transcription backend supports
+ */
+export interface TranscriptionCapabilities {
+    languageDetection: boolean; // Reports the spoken language
+    timestamps: boolean; // Returns segments with start/end times
+    diarization: boolean; // Can label speakers on segments
+    translation: boolean; // Can translate the speech into English (Whisper translate task)
+    maxFileSizeBytes?: number; // Largest upload the backend accepts, if limited
+}
+
+/**
+ * Options for a single transcription request
+ */
+export interface TranscriptionRequest {
+    language: string; // Language code, or 'auto' for automatic detection
+    fileExtension: string; // File extension of the audio (without dot)
+    prompt?: string; // Vocabulary hint (names, jargon) to guide spelling
+    whisperOptions?: Partial<WhisperOptions>; // Per-recording overrides of the Whisper options in the settings
+    task?: WhisperTask; // Overrides the configured task, 'translate' for an English transcript
+}
+
+/**
+ * A speech recognition backend
+ */
+export interface TranscriptionProvider {
+    readonly id: string; // Stored in the transcriptionProvider setting
+    readonly name: string; // Shown in the settings
+    readonly capabilities: TranscriptionCapabilities;
+
+    /**
+     * Transcribe prepared audio
+     * @param audioBlob Audio to transcribe
+     * @param request Language and format of the audio
+     * @returns Promise that resolves to the transcription result
+     */
+    transcribe(audioBlob: Blob, request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
@@ -0,0 +1,35 @@
+import type { TranscriptionProvider } from './TranscriptionProvider';
+
+/**
+ * Registry of the available transcription providers
+ */
+export class TranscriptionProviderRegistry {
+    private providers = new Map<string, TranscriptionProvider>();
+
+    /**
+     * Register a provider, replacing any provider with the same ID
+     * @param provider The provider to register
+     */
+    register(provider: TranscriptionProvider): void {
+        if (this.providers.has(provider.id)) {
+            console.warn(`[VoiceAIJournal] Replacing transcription provider '${provider.id}'`);
+        }
+        this.providers.set(provider.id, provider);
+    }
+
+    /**
+     * Get a provider by ID
+     * @param id Provider ID
+     * @returns The provider, or undefined if none is registered under the ID
+     */
+    get(id: string): TranscriptionProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    /**
+     * Get all registered providers in registration order
+     */
+    getAll(): TranscriptionProvider[] {
+        return Array.from(this.providers.values());
+    }
+}
@@ -0,0 +1,129 @@
+import type VoiceAIJournalPlugin from '../../../main';
+import { startTimer } from '../../utils/timerUtils';
+import { buildMultipartBody, requestUrlWithTimeout, AUDIO_MIME_TYPES } from '../../utils/requestUtils';
+import { resolveLanguage } from '../../utils/languageUtils';
+import type {
+    TranscriptionProvider,
+    TranscriptionCapabilities,
+    TranscriptionRequest,
+    TranscriptionResult,
+    TranscriptionSegment
+} from './TranscriptionProvider';
+
+/**
+ * Response of the whisper.cpp server /inference route with response_format=verbose_json
+ */
+interface WhisperCppInferenceResponse {
+    text?: string;
+    language?: string; // Lowercase language name, e.g. 'german'
+    detected_language?: string; // Set when the language was detected ('auto')
+    segments?: Array<{
+        start: number;
+        end: number;
+        text: string;
+        avg_logprob?: number;
+        no_speech_prob?: number;
+        words?: Array<{ word: string; start: number; end: number; probability?: number }>;
+    }>;
+    error?: string;
+}
+
+/**
+ * Transcription with the HTTP server bundled with whisper.cpp
+ * (see https://github.com/ggerganov/whisper.cpp/tree/master/examples/server)
+ *
+ * The server only decodes WAV unless it was started with --convert, so the
+ * default audio format for this provider is 16 kHz mono WAV.
+ */
+export class WhisperCppProvider implements TranscriptionProvider {
+    readonly id = 'whisperCpp';
+    readonly name = 'whisper.cpp Server';
+    readonly capabilities: TranscriptionCapabilities = {
+        languageDetection: true,
+        timestamps: true,
+        diarization: false,
+        translation: true
+    };
+
+    /**
+     * @param plugin Plugin instance
+     */
+    constructor(private plugin: VoiceAIJournalPlugin) {}
+
+    async transcribe(audioBlob: Blob, request: TranscriptionRequest): Promise<TranscriptionResult> {
+        const timer = startTimer('whisper.cpp Transcription');
+        const settings = this.plugin.settings;
+
+        const endpoint = (settings.whisperCppEndpoint || '').trim().replace(/\/+$/, '');
+        if (!endpoint) {
+            throw new Error('whisper.cpp server endpoint not configured');
+        }
+
+        try {
+            const extension = request.fileExtension.toLowerCase();
+            const { body, contentType } = buildMultipartBody(
+                {
+                    temperature: String(settings.whisperCppTemperature ?? 0),
+                    response_format: 'verbose_json',
+                    language: request.language || 'auto',
+                    translate: request.task === 'translate' ? 'true' : undefined,
+                    prompt: request.prompt
+                },
+                {
+                    name: 'file',
+                    filename: `recording.${extension}`,
+                    contentType: AUDIO_MIME_TYPES[extension] || 'audio/wav',
+                    data: await audioBlob.arrayBuffer()
+                }
+            );
+
+            const url = `${endpoint}/inference`;
+            console.log(`[VoiceAIJournal] Sending transcription request to: ${url}`);
+            const response = await requestUrlWithTimeout({
+                url,
+                method: 'POST',
+                body,
+                headers: { 'Content-Type': contentType },
+                throw: false
+            }, 600000); // 10 minutes timeout for transcription
+
+            if (response.status !== 200) {
+                console.error(`Transcription request failed, status ${response.status}:`, response.text);
+                throw new Error(`Transcription request failed, status ${response.status}`);
+            }
+
+            const parsed: WhisperCppInferenceResponse = response.json ?? JSON.parse(response.text);
+            if (parsed.error) {
+                // The server reports decoding problems (e.g. non-WAV input) with status 200
+                throw new Error(parsed.error);
+            }
+
+            const segments: TranscriptionSegment[] | undefined = Array.isArray(parsed.segments)
+                ? parsed.segments.map(seg => ({
+                    start: seg.start,
+                    end: seg.end,
+                    text: seg.text.trim(),
+                    avgLogprob: seg.avg_logprob,
+                    noSpeechProb: seg.no_speech_prob,
+                    words: seg.words?.map(word => ({ word: word.word.trim(), start: word.start, end: word.end, probability: word.probability }))
+                }))
+                : undefined;
+            const text = (parsed.text ?? (segments || []).map(seg => seg.text).join(' ')).trim();
+
+            const language = resolveLanguage(parsed.detected_language || parsed.language);
+            console.log(`[VoiceAIJournal] whisper.cpp transcription completed in ${timer.getFormattedTime()}, language: ${language.name || 'not reported'}`);
+
+            return {
+                text,
+                detectedLanguage: language.name,
+                languageCode: language.code || (request.language !== 'auto' ? request.language : undefined),
+                processingTimeMs: timer.getElapsedTime(),
+                segments,
+                task: request.task === 'translate' ? 'translate' : 'transcribe'
+            };
+        } catch (error) {
+            console.error('whisper.cpp transcription error:', error);
+            throw new Error(`Failed to transcribe with whisper.cpp server: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
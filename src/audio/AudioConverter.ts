@@ -0,0 +1,104 @@
+import { encodeAudioBufferAsWav } from './wavEncoder';
+
+/**
+ * Audio format sent to a transcription provider
+ * - original: the recorded container (webm/mp4/ogg/...) unchanged
+ * - wav16k: 16 kHz mono 16-bit PCM WAV, the native input format of Whisper models
+ */
+export type AsrAudioFormat = 'original' | 'wav16k';
+
+/**
+ * Sample rate expected by Whisper-family ASR models
+ */
+export const ASR_SAMPLE_RATE = 16000;
+
+/**
+ * Decode an audio blob into an AudioBuffer at the device sample rate
+ */
+export async function decodeAudioBlob(blob: Blob): Promise<AudioBuffer> {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) {
+        throw new Error('Web Audio API not available');
+    }
+
+    const audioContext: AudioContext = new AudioContextClass();
+    try {
+        return await audioContext.decodeAudioData(await blob.arrayBuffer());
+    } finally {
+        audioContext.close().catch(() => { /* ignore close errors */ });
+    }
+}
+
+/**
+ * Resample decoded audio to a mono buffer at the given sample rate
+ *
+ * Rendering through an OfflineAudioContext with a single output channel lets the
+ * browser do both the channel down-mix and the band-limited resampling.
+ *
+ * @param audioBuffer Decoded audio in any channel layout and sample rate
+ * @param sampleRate Target sample rate
+ * @returns Mono AudioBuffer at the target sample rate
+ */
+export async function resampleToMono(audioBuffer: AudioBuffer, sampleRate = ASR_SAMPLE_RATE): Promise<AudioBuffer> {
+    if (audioBuffer.numberOfChannels === 1 && audioBuffer.sampleRate === sampleRate) {
+        return audioBuffer;
+    }
+
+    const OfflineAudioContextClass = window.OfflineAudioContext || (window as any).webkitOfflineAudioContext;
+    if (!OfflineAudioContextClass) {
+        throw new Error('OfflineAudioContext not available');
+    }
+
+    const frameCount = Math.ceil(audioBuffer.duration * sampleRate);
+    const offlineContext: OfflineAudioContext = new OfflineAudioContextClass(1, frameCount, sampleRate);
+    const source = offlineContext.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(offlineContext.destination);
+    source.start(0);
+
+    return offlineContext.startRendering();
+}
+
+/**
+ * Decode any decodable audio blob to mono PCM samples at the ASR sample rate
+ *
+ * @param blob Audio in any format the platform can decode
+ * @returns 16 kHz mono samples
+ */
+export async function decodeAsrSamples(blob: Blob): Promise<Float32Array> {
+    const decoded = await decodeAudioBlob(blob);
+    return (await resampleToMono(decoded, ASR_SAMPLE_RATE)).getChannelData(0);
+}
+
+/**
+ * Extract the beginning of a recording as 16 kHz mono WAV
+ *
+ * Used for language detection, which only needs a few seconds of speech
+ * instead of the whole upload.
+ *
+ * @param blob Audio in any format the platform can decode
+ * @param seconds Length of the excerpt
+ * @returns WAV blob with at most `seconds` of audio
+ */
+export async function extractLeadingExcerpt(blob: Blob, seconds: number): Promise<Blob> {
+    const decoded = await decodeAudioBlob(blob);
+    const resampled = await resampleToMono(decoded, ASR_SAMPLE_RATE);
+    const endFrame = Math.min(resampled.length, Math.floor(seconds * ASR_SAMPLE_RATE));
+    return new Blob([encodeAudioBufferAsWav(resampled, 0, endFrame)], { type: 'audio/wav' });
+}
+
+/**
+ * Convert any decodable audio blob to 16 kHz mono PCM WAV
+ *
+ * @param blob Audio in any format the platform can decode
+ * @param sampleRate Target sample rate
+ * @returns WAV blob ready for ASR backends that only accept WAV
+ */
+export async function convertToAsrWav(blob: Blob, sampleRate = ASR_SAMPLE_RATE): Promise<Blob> {
+    const decoded = await decodeAudioBlob(blob);
+    const resampled = await resampleToMono(decoded, sampleRate);
+    const wav = encodeAudioBufferAsWav(resampled);
+
+    console.log(`[Voice AI Journal] Converted ${blob.type || 'audio'} (${blob.size} bytes, ${decoded.sampleRate} Hz, ${decoded.numberOfChannels} ch) to ${sampleRate} Hz mono WAV (${wav.byteLength} bytes)`);
+    return new Blob([wav], { type: 'audio/wav' });
+}
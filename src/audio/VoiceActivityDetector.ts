@@ -0,0 +1,219 @@
+/**
+ * Options for voice activity detection
+ */
+export interface VoiceActivityOptions {
+    thresholdDb: number; // Levels below this (dBFS) count as silence
+    silenceDurationMs: number; // Continuous silence required before onSilence fires
+    speechDurationMs: number; // Continuous speech required before onSpeech fires
+    pollIntervalMs: number; // How often the analyser is sampled
+    onSilence?: () => void;
+    onSpeech?: () => void;
+}
+
+const DEFAULT_VAD_OPTIONS: VoiceActivityOptions = {
+    thresholdDb: -50,
+    silenceDurationMs: 5000,
+    speechDurationMs: 200,
+    pollIntervalMs: 100
+};
+
+/**
+ * Convert an RMS amplitude (0..1) to dBFS
+ */
+export function rmsToDb(rms: number): number {
+    return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+}
+
+/**
+ * Calculate the RMS level of a block of samples in dBFS
+ */
+export function getLevelDb(samples: Float32Array, start = 0, end = samples.length): number {
+    if (end <= start) {
+        return -Infinity;
+    }
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+        sum += samples[i] * samples[i];
+    }
+    return rmsToDb(Math.sqrt(sum / (end - start)));
+}
+
+/**
+ * Find the quietest window in a range of decoded audio
+ *
+ * Used to cut audio at a pause instead of in the middle of a word.
+ *
+ * @param samples Mono PCM samples
+ * @param sampleRate Sample rate of the samples
+ * @param start First sample of the range to search
+ * @param end Sample after the last one of the range to search
+ * @param windowMs Window size used for the level calculation
+ * @returns Sample offset in the middle of the quietest window
+ */
+export function findQuietestPoint(
+    samples: Float32Array,
+    sampleRate: number,
+    start: number,
+    end: number,
+    windowMs = 50
+): number {
+    const windowSize = Math.max(1, Math.floor(sampleRate * windowMs / 1000));
+
+    let quietest = end;
+    let quietestDb = Infinity;
+    for (let offset = Math.max(0, start); offset + windowSize <= end; offset += windowSize) {
+        const level = getLevelDb(samples, offset, offset + windowSize);
+        if (level < quietestDb) {
+            quietestDb = level;
+            quietest = offset + Math.floor(windowSize / 2);
+        }
+    }
+    return quietest;
+}
+
+/**
+ * Find the first and last window containing speech in decoded audio
+ *
+ * @param samples Mono PCM samples
+ * @param sampleRate Sample rate of the samples
+ * @param thresholdDb Windows below this level count as silence
+ * @param windowMs Window size used for the level calculation
+ * @returns Sample offsets of the speech region, or null if the audio is silent
+ */
+export function findSpeechBounds(
+    samples: Float32Array,
+    sampleRate: number,
+    thresholdDb: number,
+    windowMs = 20
+): { start: number; end: number } | null {
+    const windowSize = Math.max(1, Math.floor(sampleRate * windowMs / 1000));
+
+    let start = -1;
+    for (let offset = 0; offset < samples.length; offset += windowSize) {
+        if (getLevelDb(samples, offset, Math.min(offset + windowSize, samples.length)) > thresholdDb) {
+            start = offset;
+            break;
+        }
+    }
+    if (start < 0) {
+        return null;
+    }
+
+    let end = samples.length;
+    for (let offset = samples.length; offset > start; offset -= windowSize) {
+        if (getLevelDb(samples, Math.max(offset - windowSize, start), offset) > thresholdDb) {
+            end = offset;
+            break;
+        }
+    }
+
+    return { start, end };
+}
+
+/**
+ * Detects speech and silence on a live AnalyserNode
+ *
+ * The detector samples the analyser's time-domain data on an interval and fires
+ * onSilence / onSpeech on state transitions. The analyser is resolved through a
+ * getter on every tick because the visualizer recreates it when it restarts.
+ */
+export class VoiceActivityDetector {
+    private options: VoiceActivityOptions;
+    private getAnalyser: () => AnalyserNode | null;
+    private pollTimer: number | null = null;
+    private buffer: Float32Array | null = null;
+    private speaking = true;
+    private transitionStartedAt: number | null = null;
+    private lastLevelDb = -Infinity;
+
+    /**
+     * @param getAnalyser Returns the analyser to sample, or null if none is available
+     * @param options Detection thresholds and callbacks
+     */
+    constructor(getAnalyser: () => AnalyserNode | null, options: Partial<VoiceActivityOptions> = {}) {
+        this.getAnalyser = getAnalyser;
+        this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+    }
+
+    /**
+     * Start sampling the analyser
+     * The detector starts in the speaking state so silence is measured from this point
+     */
+    start(): void {
+        this.stop();
+        this.speaking = true;
+        this.transitionStartedAt = null;
+        this.pollTimer = window.setInterval(() => this.poll(), this.options.pollIntervalMs);
+    }
+
+    /**
+     * Stop sampling the analyser
+     */
+    stop(): void {
+        if (this.pollTimer !== null) {
+            window.clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+    }
+
+    /**
+     * Whether the detector currently considers the input to be speech
+     */
+    isSpeaking(): boolean {
+        return this.speaking;
+    }
+
+    /**
+     * Last measured input level in dBFS
+     */
+    getLastLevelDb(): number {
+        return this.lastLevelDb;
+    }
+
+    private poll(): void {
+        const analyser = this.getAnalyser();
+        if (!analyser) {
+            return;
+        }
+
+        if (!this.buffer || this.buffer.length !== analyser.fftSize) {
+            this.buffer = new Float32Array(analyser.fftSize);
+        }
+
+        try {
+            analyser.getFloatTimeDomainData(this.buffer);
+        } catch (error) {
+            console.error('[Voice AI Journal] VAD failed to read analyser data:', error);
+            return;
+        }
+
+        this.lastLevelDb = getLevelDb(this.buffer);
+        const aboveThreshold = this.lastLevelDb > this.options.thresholdDb;
+        const now = Date.now();
+
+        // Level agrees with the current state, cancel any pending transition
+        if (aboveThreshold === this.speaking) {
+            this.transitionStartedAt = null;
+            return;
+        }
+
+        if (this.transitionStartedAt === null) {
+            this.transitionStartedAt = now;
+        }
+
+        const requiredMs = this.speaking ? this.options.silenceDurationMs : this.options.speechDurationMs;
+        if (now - this.transitionStartedAt < requiredMs) {
+            return;
+        }
+
+        this.speaking = aboveThreshold;
+        this.transitionStartedAt = null;
+        if (this.speaking) {
+            console.log('[Voice AI Journal] VAD: speech detected');
+            this.options.onSpeech?.();
+        } else {
+            console.log('[Voice AI Journal] VAD: silence detected');
+            this.options.onSilence?.();
+        }
+    }
+}
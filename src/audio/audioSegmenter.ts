@@ -0,0 +1,86 @@
+import { encodeWav } from './wavEncoder';
+
+/**
+ * A slice of a longer recording prepared for transcription
+ */
+export interface AudioChunk {
+    index: number;
+    blob: Blob; // 16 kHz mono WAV
+    startMs: number; // Position of the chunk in the original recording
+    endMs: number;
+}
+
+/**
+ * Lowest bitrate (bytes per second) of compressed recordings, well below what
+ * MediaRecorder produces, so a smaller file is certainly shorter than its limit
+ */
+const MIN_COMPRESSED_BYTES_PER_SECOND = 1000;
+
+/**
+ * Get an upper bound for the duration of a recording without decoding it
+ *
+ * WAV files are measured exactly from their header, compressed formats are
+ * estimated from the file size at the lowest expected bitrate.
+ *
+ * @param blob The recording
+ * @returns Maximum duration in seconds
+ */
+export async function estimateMaxDuration(blob: Blob): Promise<number> {
+    const header = new DataView(await blob.slice(0, 44).arrayBuffer());
+    const readString = (offset: number) => String.fromCharCode(...Array.from({ length: 4 }, (_, i) => header.getUint8(offset + i)));
+    if (header.byteLength >= 44 && readString(0) === 'RIFF' && readString(8) === 'WAVE') {
+        const byteRate = header.getUint32(28, true);
+        if (byteRate > 0) {
+            return (blob.size - 44) / byteRate;
+        }
+    }
+    return blob.size / MIN_COMPRESSED_BYTES_PER_SECOND;
+}
+
+/**
+ * Split a long recording into overlapping WAV chunks
+ *
+ * Works on the 16 kHz mono PCM the recording is transcribed from, which keeps
+ * the data small enough for hour-long sessions. Consecutive chunks overlap so
+ * words cut at a boundary appear complete in at least one chunk; the duplicate
+ * text is removed again when the transcripts are stitched together.
+ *
+ * @param samples Mono PCM samples of the recording
+ * @param sampleRate Sample rate of the samples
+ * @param chunkSeconds Length of each chunk
+ * @param overlapSeconds Overlap between consecutive chunks
+ * @returns The chunks, or null if the recording fits into a single chunk
+ */
+export function splitAudioIntoChunks(
+    samples: Float32Array,
+    sampleRate: number,
+    chunkSeconds: number,
+    overlapSeconds: number
+): AudioChunk[] | null {
+    const duration = samples.length / sampleRate;
+    if (duration <= chunkSeconds) {
+        return null;
+    }
+
+    const chunkFrames = Math.floor(chunkSeconds * sampleRate);
+    // Never let the overlap swallow the whole chunk, the loop must advance
+    const overlapFrames = Math.min(Math.floor(overlapSeconds * sampleRate), Math.floor(chunkFrames / 2));
+    const stepFrames = chunkFrames - overlapFrames;
+
+    const chunks: AudioChunk[] = [];
+    for (let start = 0; start < samples.length; start += stepFrames) {
+        const end = Math.min(start + chunkFrames, samples.length);
+        chunks.push({
+            index: chunks.length,
+            blob: new Blob([encodeWav([samples.subarray(start, end)], sampleRate)], { type: 'audio/wav' }),
+            startMs: start / sampleRate * 1000,
+            endMs: end / sampleRate * 1000
+        });
+        if (end >= samples.length) {
+            break;
+        }
+    }
+
+    console.log(`[Voice AI Journal] Split ${Math.round(duration)}s recording into ${chunks.length} chunks of ${chunkSeconds}s with ${overlapSeconds}s overlap`);
+    return chunks;
+}
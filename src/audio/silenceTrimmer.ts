@@ -0,0 +1,54 @@
+import { findSpeechBounds } from './VoiceActivityDetector';
+
+/**
+ * Result of trimming silence from a recording
+ */
+export interface SilenceTrimResult {
+    samples: Float32Array; // Trimmed audio, same sample rate as the input
+    trimmedStartMs: number; // Silence removed from the beginning
+    trimmedEndMs: number; // Silence removed from the end
+}
+
+/**
+ * Remove leading and trailing silence from a recording
+ *
+ * Works on the mono PCM the recording is transcribed from, so the trimmed
+ * audio keeps the sample rate and channel layout sent to the provider.
+ *
+ * @param samples Mono PCM samples of the recording
+ * @param sampleRate Sample rate of the samples
+ * @param thresholdDb Level (dBFS) below which audio counts as silence
+ * @param paddingMs Audio kept around the detected speech so words are not clipped
+ * @param minTrimMs Minimum amount of silence that makes re-encoding worthwhile
+ * @returns The trimmed audio, or null if nothing (or everything) would be trimmed
+ */
+export function trimSilence(
+    samples: Float32Array,
+    sampleRate: number,
+    thresholdDb: number,
+    paddingMs = 300,
+    minTrimMs = 500
+): SilenceTrimResult | null {
+    const bounds = findSpeechBounds(samples, sampleRate, thresholdDb);
+    if (!bounds) {
+        console.warn('[Voice AI Journal] No speech found while trimming silence, keeping original audio');
+        return null;
+    }
+
+    const padding = Math.floor(sampleRate * paddingMs / 1000);
+    const start = Math.max(0, bounds.start - padding);
+    const end = Math.min(samples.length, bounds.end + padding);
+
+    const trimmedStartMs = start / sampleRate * 1000;
+    const trimmedEndMs = (samples.length - end) / sampleRate * 1000;
+    if (trimmedStartMs + trimmedEndMs < minTrimMs) {
+        return null;
+    }
+
+    console.log(`[Voice AI Journal] Trimmed ${Math.round(trimmedStartMs)}ms leading and ${Math.round(trimmedEndMs)}ms trailing silence`);
+    return {
+        samples: samples.subarray(start, end),
+        trimmedStartMs,
+        trimmedEndMs
+    };
+}
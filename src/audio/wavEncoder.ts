@@ -0,0 +1,70 @@
+/**
+ * Encode PCM channel data as a 16-bit little-endian WAV file
+ *
+ * @param channels One Float32Array per channel, all of the same length
+ * @param sampleRate Sample rate of the channel data
+ * @returns WAV file contents
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+    const numChannels = channels.length;
+    const numFrames = numChannels > 0 ? channels[0].length : 0;
+    const bytesPerSample = 2;
+    const blockAlign = numChannels * bytesPerSample;
+    const dataSize = numFrames * blockAlign;
+
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    // RIFF header
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(view, 8, 'WAVE');
+
+    // fmt chunk
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true); // Chunk size
+    view.setUint16(20, 1, true); // PCM format
+    view.setUint16(22, numChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true); // Byte rate
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bytesPerSample * 8, true);
+
+    // data chunk
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    // Interleave and clamp samples
+    let offset = 44;
+    for (let frame = 0; frame < numFrames; frame++) {
+        for (let channel = 0; channel < numChannels; channel++) {
+            const sample = Math.max(-1, Math.min(1, channels[channel][frame]));
+            view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+            offset += bytesPerSample;
+        }
+    }
+
+    return buffer;
+}
+
+/**
+ * Encode an AudioBuffer (or a frame range of it) as a WAV file
+ *
+ * @param audioBuffer Decoded audio
+ * @param startFrame First frame to include
+ * @param endFrame Frame after the last one to include
+ * @returns WAV file contents
+ */
+export function encodeAudioBufferAsWav(audioBuffer: AudioBuffer, startFrame = 0, endFrame = audioBuffer.length): ArrayBuffer {
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+        channels.push(audioBuffer.getChannelData(channel).subarray(startFrame, endFrame));
+    }
+    return encodeWav(channels, audioBuffer.sampleRate);
+}
+
+function writeString(view: DataView, offset: number, value: string): void {
+    for (let i = 0; i < value.length; i++) {
+        view.setUint8(offset + i, value.charCodeAt(i));
+    }
+}
@@ -560,6 +560,18 @@ export class SoundWaveVisualizer {
         }
     }
 
+    /**
+     * Get the analyser node driving the visualization
+     *
+     * Allows other components (e.g. voice activity detection) to share the same
+     * audio analysis instead of opening a second AudioContext on the stream.
+     *
+     * @returns The active AnalyserNode, or null if audio analysis is unavailable
+     */
+    public getAnalyser(): AnalyserNode | null {
+        return this.analyser;
+    }
+
     /**
      * Stop recording visualization and return to idle state
      *
@@ -0,0 +1,276 @@
+import type VoiceAIJournalPlugin from '../../main';
+import type { TranscriptionResult } from '../ai/ASRManager';
+import type { WhisperOptions } from '../ai/transcription/TranscriptionProvider';
+import { resampleToMono, ASR_SAMPLE_RATE } from '../audio/AudioConverter';
+import type { AudioChunk } from '../audio/audioSegmenter';
+import { findQuietestPoint } from '../audio/VoiceActivityDetector';
+import { encodeWav } from '../audio/wavEncoder';
+
+/**
+ * Options for live transcription of a running recording
+ */
+export interface LiveTranscriberOptions {
+    language: string; // Language code, or 'auto' to reuse the language detected in the first slice
+    templateId?: string; // Template the transcript is processed with, for its vocabulary note
+    whisperOptions?: Partial<WhisperOptions>; // Per-recording overrides of the local Whisper options
+    onUpdate?: (previewText: string) => void; // Receives the transcript so far after every slice
+}
+
+/**
+ * Transcribes a recording in slices while it is still running
+ *
+ * MediaRecorder chunks only decode as part of the whole recording, so the
+ * microphone stream is captured as PCM alongside it instead. Only audio
+ * captured since the previous slice is resampled, and only the audio after
+ * the last transcribed position is kept. Every slice ends at the quietest
+ * point near the end so words are not split between slices. Audio is only
+ * captured while the recording runs, so slice timings match the saved
+ * recording. When the recording stops only the remaining tail has to be
+ * transcribed.
+ */
+export class LiveTranscriber {
+    private plugin: VoiceAIJournalPlugin;
+    private options: LiveTranscriberOptions;
+    private language: string;
+    private interval: number | null = null;
+    private inFlight: Promise<void> = Promise.resolve();
+    private busy = false;
+    private failed = false;
+
+    // Microphone capture, blocks are collected at the sample rate of the audio context
+    private audioContext: AudioContext | null = null;
+    private captureNodes: AudioNode[] = [];
+    private captureSampleRate = 0;
+    private capturedBlocks: Float32Array[] = [];
+
+    // 16 kHz mono audio after the last transcribed position
+    private pendingSamples = new Float32Array(0);
+
+    // Transcribed slices in recording order
+    private slices: AudioChunk[] = [];
+    private results: TranscriptionResult[] = [];
+    private transcribedMs = 0;
+
+    // Minimum audio worth a request, and the range searched for a pause to cut at
+    private static readonly MIN_SLICE_SECONDS = 5;
+    private static readonly CUT_SEARCH_SECONDS = 3;
+
+    // Frames per captured block, about 85 ms at 48 kHz
+    private static readonly CAPTURE_BLOCK_SIZE = 4096;
+
+    /**
+     * @param plugin The plugin instance
+     * @param options Language, template and preview callback
+     */
+    constructor(plugin: VoiceAIJournalPlugin, options: LiveTranscriberOptions) {
+        this.plugin = plugin;
+        this.options = options;
+        this.language = options.language;
+    }
+
+    /**
+     * Start capturing the running recording and transcribing slices at the configured interval
+     */
+    start(): void {
+        this.stop();
+        if (!this.startCapture()) {
+            // Nothing is transcribed live, the recording is transcribed as a whole after stopping
+            this.failed = true;
+            return;
+        }
+
+        const intervalSeconds = Math.max(LiveTranscriber.MIN_SLICE_SECONDS, this.plugin.settings.liveTranscriptionSliceSeconds || 30);
+        this.interval = window.setInterval(() => this.transcribeNextSlice(), intervalSeconds * 1000);
+        console.log(`[Voice AI Journal] Live transcription started with ${intervalSeconds}s slices`);
+    }
+
+    /**
+     * Stop capturing and scheduling new slices; a slice already being transcribed still completes
+     */
+    stop(): void {
+        if (this.interval !== null) {
+            window.clearInterval(this.interval);
+            this.interval = null;
+        }
+        this.stopCapture();
+    }
+
+    /**
+     * Get the transcript of all slices transcribed so far
+     */
+    getPreviewText(): string {
+        return this.results.map(result => result.text.trim()).filter(text => text.length > 0).join(' ');
+    }
+
+    /**
+     * Transcribe the remaining tail of the stopped recording and combine it with the live slices
+     *
+     * @param onProgress Optional callback receiving status text
+     * @returns The transcription of the whole recording, or null if nothing was transcribed
+     * live and the recording should be transcribed as a whole
+     */
+    async finish(onProgress?: (statusText: string) => void): Promise<TranscriptionResult | null> {
+        this.stop();
+        await this.inFlight;
+
+        if (this.failed || this.slices.length === 0) {
+            return null;
+        }
+
+        onProgress?.('Transcribing the rest of the recording...');
+        const transcribed = await this.transcribeSlice(true);
+        if (!transcribed) {
+            return null;
+        }
+
+        console.log(`[Voice AI Journal] Combined ${this.slices.length} live transcription slices`);
+        return this.plugin.asrManager.mergeChunkResults(this.slices, this.results);
+    }
+
+    /**
+     * Transcribe the next slice unless the previous one is still running
+     */
+    private transcribeNextSlice(): void {
+        if (this.busy || this.failed) {
+            return;
+        }
+
+        this.busy = true;
+        this.inFlight = this.transcribeSlice(false)
+            .then(() => undefined)
+            .finally(() => {
+                this.busy = false;
+            });
+    }
+
+    /**
+     * Transcribe the audio after the last transcribed position
+     *
+     * @param final Whether this is the tail of the stopped recording
+     * @returns False if live transcription failed and the recording must be transcribed as a whole
+     */
+    private async transcribeSlice(final: boolean): Promise<boolean> {
+        try {
+            await this.resampleCapturedAudio();
+            const samples = this.pendingSamples;
+
+            let endFrame = samples.length;
+            if (!final) {
+                const searchFrames = LiveTranscriber.CUT_SEARCH_SECONDS * ASR_SAMPLE_RATE;
+                endFrame = findQuietestPoint(samples, ASR_SAMPLE_RATE, Math.max(0, samples.length - searchFrames), samples.length);
+            }
+            // Wait for more audio, or skip a tail too short to contain speech
+            const minSeconds = final ? 1 : LiveTranscriber.MIN_SLICE_SECONDS;
+            if (endFrame < minSeconds * ASR_SAMPLE_RATE) {
+                return true;
+            }
+
+            const slice: AudioChunk = {
+                index: this.slices.length,
+                blob: new Blob([encodeWav([samples.subarray(0, endFrame)], ASR_SAMPLE_RATE)], { type: 'audio/wav' }),
+                startMs: this.transcribedMs,
+                endMs: this.transcribedMs + endFrame / ASR_SAMPLE_RATE * 1000
+            };
+
+            const result = await this.plugin.asrManager.transcribeAudio(slice.blob, this.language, 'wav', {
+                templateId: this.options.templateId,
+                whisperOptions: this.options.whisperOptions,
+                quiet: true
+            });
+
+            // Transcribe all later slices in the language detected in the first one
+            if (this.language === 'auto' && result.languageCode) {
+                this.language = result.languageCode;
+            }
+
+            this.slices.push(slice);
+            this.results.push(result);
+            this.transcribedMs = slice.endMs;
+            this.pendingSamples = samples.subarray(endFrame);
+            console.log(`[Voice AI Journal] Live transcription reached ${Math.round(slice.endMs / 1000)}s`);
+
+            this.options.onUpdate?.(this.getPreviewText());
+            return true;
+        } catch (error) {
+            // The live preview is best effort, the full recording is still transcribed after stopping
+            console.warn('[Voice AI Journal] Live transcription failed, the recording will be transcribed after stopping:', error);
+            this.failed = true;
+            this.stop();
+            return false;
+        }
+    }
+
+    /**
+     * Capture the microphone stream of the running recording as PCM
+     * @returns False if the stream cannot be captured
+     */
+    private startCapture(): boolean {
+        const stream = this.plugin.recordingManager.getMediaStream();
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        if (!stream || !AudioContextClass) {
+            console.warn('[Voice AI Journal] Live transcription unavailable: no audio stream to capture');
+            return false;
+        }
+
+        try {
+            const audioContext: AudioContext = new AudioContextClass();
+            const source = audioContext.createMediaStreamSource(stream);
+            // A single input channel makes the node mix the microphone down to mono
+            const processor = audioContext.createScriptProcessor(LiveTranscriber.CAPTURE_BLOCK_SIZE, 1, 1);
+            processor.onaudioprocess = (event) => {
+                // Paused audio is not part of the recording
+                if (this.plugin.recordingManager.getRecordingState() === 'recording') {
+                    this.capturedBlocks.push(new Float32Array(event.inputBuffer.getChannelData(0)));
+                }
+            };
+            source.connect(processor);
+            // The processor only runs while connected to an output, it writes silence
+            processor.connect(audioContext.destination);
+
+            this.audioContext = audioContext;
+            this.captureNodes = [source, processor];
+            this.captureSampleRate = audioContext.sampleRate;
+            return true;
+        } catch (error) {
+            console.warn('[Voice AI Journal] Live transcription unavailable: failed to capture the audio stream:', error);
+            return false;
+        }
+    }
+
+    private stopCapture(): void {
+        this.captureNodes.forEach(node => node.disconnect());
+        this.captureNodes = [];
+        if (this.audioContext) {
+            this.audioContext.close().catch(() => { /* ignore close errors */ });
+            this.audioContext = null;
+        }
+    }
+
+    /**
+     * Resample the blocks captured since the last call and append them to the pending audio
+     */
+    private async resampleCapturedAudio(): Promise<void> {
+        const blocks = this.capturedBlocks;
+        if (blocks.length === 0) {
+            return;
+        }
+        this.capturedBlocks = [];
+
+        const captured = new AudioBuffer({
+            length: blocks.reduce((sum, block) => sum + block.length, 0),
+            numberOfChannels: 1,
+            sampleRate: this.captureSampleRate
+        });
+        let offset = 0;
+        for (const block of blocks) {
+            captured.copyToChannel(block, 0, offset);
+            offset += block.length;
+        }
+        const resampled = (await resampleToMono(captured, ASR_SAMPLE_RATE)).getChannelData(0);
+
+        const pending = new Float32Array(this.pendingSamples.length + resampled.length);
+        pending.set(this.pendingSamples, 0);
+        pending.set(resampled, this.pendingSamples.length);
+        this.pendingSamples = pending;
+    }
+}
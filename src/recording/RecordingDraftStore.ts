@@ -0,0 +1,156 @@
+import { normalizePath } from 'obsidian';
+import type VoiceAIJournalPlugin from '../../main';
+
+/**
+ * Metadata describing a recording draft persisted in the plugin folder
+ */
+export interface RecordingDraft {
+    id: string;
+    mimeType: string;
+    extension: string; // File extension including the dot (e.g. '.webm')
+    startedAt: number; // Epoch milliseconds when the recording started
+    updatedAt: number; // Epoch milliseconds of the last flush
+    partCount: number; // Number of chunk files written so far
+}
+
+/**
+ * Persists recording chunks to a hidden draft folder inside the plugin directory
+ *
+ * Every flush writes the pending MediaRecorder chunks as a new part file and updates
+ * the draft metadata, so a crash only loses the audio recorded since the last flush.
+ * Concatenating the parts in order yields the same container the recorder produced.
+ */
+export class RecordingDraftStore {
+    private static readonly DRAFTS_FOLDER = 'recording-drafts';
+    private static readonly META_FILE = 'draft.json';
+
+    constructor(private plugin: VoiceAIJournalPlugin) {}
+
+    /**
+     * Create a new, empty draft for a recording that just started
+     * @param mimeType MIME type reported by the MediaRecorder
+     * @param extension File extension (with dot) matching the MIME type
+     */
+    async createDraft(mimeType: string, extension: string): Promise<RecordingDraft> {
+        const now = Date.now();
+        const draft: RecordingDraft = {
+            id: `draft-${now}`,
+            mimeType,
+            extension,
+            startedAt: now,
+            updatedAt: now,
+            partCount: 0
+        };
+
+        const adapter = this.plugin.app.vault.adapter;
+        const draftsFolder = this.getDraftsFolder();
+        if (!(await adapter.exists(draftsFolder))) {
+            await adapter.mkdir(draftsFolder);
+        }
+        await adapter.mkdir(this.getDraftFolder(draft));
+        await this.writeMeta(draft);
+
+        console.log(`[Voice AI Journal] Created recording draft ${draft.id}`);
+        return draft;
+    }
+
+    /**
+     * Append chunks to a draft as a new part file
+     * @param draft The draft to append to (its metadata is updated in place)
+     * @param chunks Chunks received from the MediaRecorder since the last flush
+     */
+    async appendChunks(draft: RecordingDraft, chunks: Blob[]): Promise<void> {
+        if (chunks.length === 0) {
+            return;
+        }
+
+        const buffer = await new Blob(chunks, { type: draft.mimeType }).arrayBuffer();
+        const partPath = this.getPartPath(draft, draft.partCount);
+        await this.plugin.app.vault.adapter.writeBinary(partPath, buffer);
+
+        draft.partCount++;
+        draft.updatedAt = Date.now();
+        await this.writeMeta(draft);
+    }
+
+    /**
+     * List all drafts left over in the drafts folder
+     * @returns Drafts sorted from oldest to newest
+     */
+    async listDrafts(): Promise<RecordingDraft[]> {
+        const adapter = this.plugin.app.vault.adapter;
+        const draftsFolder = this.getDraftsFolder();
+        if (!(await adapter.exists(draftsFolder))) {
+            return [];
+        }
+
+        const listing = await adapter.list(draftsFolder);
+        const drafts: RecordingDraft[] = [];
+        for (const folder of listing.folders) {
+            const metaPath = normalizePath(`${folder}/${RecordingDraftStore.META_FILE}`);
+            try {
+                if (!(await adapter.exists(metaPath))) {
+                    // Folder without metadata cannot be recovered
+                    await adapter.rmdir(folder, true);
+                    continue;
+                }
+                drafts.push(JSON.parse(await adapter.read(metaPath)) as RecordingDraft);
+            } catch (error) {
+                console.error(`[Voice AI Journal] Failed to read recording draft in ${folder}:`, error);
+            }
+        }
+
+        return drafts.sort((a, b) => a.startedAt - b.startedAt);
+    }
+
+    /**
+     * Reassemble the audio of a draft from its part files
+     * @param draft The draft to read
+     * @returns Blob containing the recorded audio
+     */
+    async readDraftAudio(draft: RecordingDraft): Promise<Blob> {
+        const adapter = this.plugin.app.vault.adapter;
+        const parts: ArrayBuffer[] = [];
+        for (let i = 0; i < draft.partCount; i++) {
+            const partPath = this.getPartPath(draft, i);
+            if (await adapter.exists(partPath)) {
+                parts.push(await adapter.readBinary(partPath));
+            } else {
+                console.warn(`[Voice AI Journal] Missing part ${i} of recording draft ${draft.id}`);
+            }
+        }
+        return new Blob(parts, { type: draft.mimeType });
+    }
+
+    /**
+     * Delete a draft and all of its part files
+     * @param draft The draft to delete
+     */
+    async deleteDraft(draft: RecordingDraft): Promise<void> {
+        const adapter = this.plugin.app.vault.adapter;
+        const draftFolder = this.getDraftFolder(draft);
+        if (await adapter.exists(draftFolder)) {
+            await adapter.rmdir(draftFolder, true);
+            console.log(`[Voice AI Journal] Deleted recording draft ${draft.id}`);
+        }
+    }
+
+    private async writeMeta(draft: RecordingDraft): Promise<void> {
+        const metaPath = normalizePath(`${this.getDraftFolder(draft)}/${RecordingDraftStore.META_FILE}`);
+        await this.plugin.app.vault.adapter.write(metaPath, JSON.stringify(draft));
+    }
+
+    private getDraftsFolder(): string {
+        const pluginDir = this.plugin.manifest.dir
+            || `${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+        return normalizePath(`${pluginDir}/${RecordingDraftStore.DRAFTS_FOLDER}`);
+    }
+
+    private getDraftFolder(draft: RecordingDraft): string {
+        return normalizePath(`${this.getDraftsFolder()}/${draft.id}`);
+    }
+
+    private getPartPath(draft: RecordingDraft, index: number): string {
+        return normalizePath(`${this.getDraftFolder(draft)}/part-${String(index).padStart(6, '0')}.bin`);
+    }
+}
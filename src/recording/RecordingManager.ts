@@ -1,5 +1,6 @@
 import { Notice } from 'obsidian';
 import type VoiceAIJournalPlugin from '../../main';
+import { RecordingDraftStore, RecordingDraft } from './RecordingDraftStore';
 
 export type RecordingState = 'inactive' | 'recording' | 'paused';
 
@@ -15,8 +16,24 @@ export class RecordingManager {
     private recordingPausedDuration: number;
     private lastPausedTime: number | null = null;
 
+    // Crash recovery: chunks are periodically flushed to a draft on disk
+    private draftStore: RecordingDraftStore;
+    private currentDraft: RecordingDraft | null = null;
+    private pendingDraftChunks: Blob[] = [];
+    private draftPending = false; // Draft is being created, chunks are buffered meanwhile
+    private draftFlushInterval: number | null = null;
+    private draftFlushQueue: Promise<void> = Promise.resolve();
+
     constructor(plugin: VoiceAIJournalPlugin) {
         this.plugin = plugin;
+        this.draftStore = new RecordingDraftStore(plugin);
+    }
+
+    /**
+     * Get the draft store used for crash recovery
+     */
+    public getDraftStore(): RecordingDraftStore {
+        return this.draftStore;
     }
 
     /**
@@ -41,6 +58,14 @@ export class RecordingManager {
         return Date.now() - this.recordingStartTime - this.recordingPausedDuration;
     }
 
+    /**
+     * Get the microphone stream of the current recording
+     * @returns The stream, or null if no recording has been started
+     */
+    public getMediaStream(): MediaStream | null {
+        return this.mediaRecorder?.stream ?? null;
+    }
+
     /**
      * Start recording audio
      * @returns Promise that resolves to true if recording started successfully
@@ -52,6 +77,7 @@ export class RecordingManager {
         }
 
         this.chunks = []; // Clear any previous recording chunks
+        this.pendingDraftChunks = [];
         
         // Get the selected microphone ID from settings
         const selectedMicrophoneId = this.plugin.settings.selectedMicrophoneId;
@@ -70,11 +96,7 @@ export class RecordingManager {
             try {
                 this.mediaRecorder = new MediaRecorder(stream);
                 
-                this.mediaRecorder.ondataavailable = (e) => {
-                    if (e.data && e.data.size > 0) {
-                        this.chunks.push(e.data);
-                    }
-                };
+                this.mediaRecorder.ondataavailable = (e) => this.handleDataAvailable(e);
                 
                 // Start recording with relatively frequent data collection
                 this.mediaRecorder.start(250);
@@ -83,6 +105,7 @@ export class RecordingManager {
                 this.recordingStartTime = Date.now();
                 this.recordingPausedDuration = 0;
                 this.lastPausedTime = null;
+                await this.startDraft();
                 return true;
             } catch (recorderError) {
                 console.error('[Voice AI Journal] MediaRecorder error:', recorderError);
@@ -118,11 +141,7 @@ export class RecordingManager {
                         throw new Error('No supported MIME types found');
                     }
                     
-                    this.mediaRecorder.ondataavailable = (e) => {
-                        if (e.data && e.data.size > 0) {
-                            this.chunks.push(e.data);
-                        }
-                    };
+                    this.mediaRecorder.ondataavailable = (e) => this.handleDataAvailable(e);
                     
                     this.mediaRecorder.start(250);
                     console.log('[Voice AI Journal] MediaRecorder started with fallback MIME type');
@@ -130,6 +149,7 @@ export class RecordingManager {
                     this.recordingStartTime = Date.now();
                     this.recordingPausedDuration = 0;
                     this.lastPausedTime = null;
+                    await this.startDraft();
                     return true;
                 } catch (fallbackError) {
                     console.error('[Voice AI Journal] Fallback MediaRecorder error:', fallbackError);
@@ -160,6 +180,9 @@ export class RecordingManager {
             this.recordingState = 'paused';
             this.lastPausedTime = Date.now();
             console.log('[Voice AI Journal] Recording paused');
+            
+            // Persist what we have so far, the app may be backgrounded while paused
+            this.flushDraft();
             return true;
         } catch (error) {
             console.error('[Voice AI Journal] Error pausing recording:', error);
@@ -257,7 +280,9 @@ export class RecordingManager {
                     this.recordingPausedDuration = 0;
                     this.lastPausedTime = null;
                     
-                    resolve(blob);
+                    // Write the final chunks so the draft is complete until processing succeeds
+                    this.stopDraftFlushTimer();
+                    this.flushDraft().finally(() => resolve(blob));
                 };
 
                 // Stop the MediaRecorder and all tracks
@@ -298,12 +323,108 @@ export class RecordingManager {
             this.recordingPausedDuration = 0;
             this.lastPausedTime = null;
             
+            // A cancelled recording must not be offered for recovery
+            await this.discardDraft();
+            
             console.log('[Voice AI Journal] Recording cancelled');
         } catch (error) {
             console.error('[Voice AI Journal] Error cancelling recording:', error);
         }
     }
 
+    /**
+     * Delete the draft of the current (or just stopped) recording
+     * Call this once the recording has been processed or saved successfully
+     */
+    public async discardDraft(): Promise<void> {
+        this.stopDraftFlushTimer();
+        this.pendingDraftChunks = [];
+        
+        const draft = this.currentDraft;
+        this.currentDraft = null;
+        if (!draft) {
+            return;
+        }
+        
+        try {
+            // Wait for in-flight writes so they don't recreate files after deletion
+            await this.draftFlushQueue;
+            await this.draftStore.deleteDraft(draft);
+        } catch (error) {
+            console.error('[Voice AI Journal] Failed to delete recording draft:', error);
+        }
+    }
+
+    /**
+     * Collect a chunk from the MediaRecorder
+     */
+    private handleDataAvailable(e: BlobEvent): void {
+        if (e.data && e.data.size > 0) {
+            this.chunks.push(e.data);
+            // Kept until the draft exists, the first chunk carries the container header
+            if (this.currentDraft || this.draftPending) {
+                this.pendingDraftChunks.push(e.data);
+            }
+        }
+    }
+
+    /**
+     * Create an on-disk draft for the recording that just started and schedule periodic flushes
+     * Chunks recorded while the draft is being created are written with the first flush
+     */
+    private async startDraft(): Promise<void> {
+        this.currentDraft = null;
+        
+        if (!this.plugin.settings.enableRecordingRecovery) {
+            this.pendingDraftChunks = [];
+            return;
+        }
+        
+        this.draftPending = true;
+        try {
+            const mimeType = this.getRecordingMimeType() || 'audio/webm';
+            this.currentDraft = await this.draftStore.createDraft(mimeType, this.getRecordingFileExtension());
+            
+            const intervalSeconds = Math.max(1, this.plugin.settings.recordingDraftFlushIntervalSeconds || 10);
+            this.draftFlushInterval = window.setInterval(() => this.flushDraft(), intervalSeconds * 1000);
+        } catch (error) {
+            // Recording must continue even if the draft cannot be written
+            console.error('[Voice AI Journal] Failed to create recording draft, crash recovery disabled:', error);
+            this.currentDraft = null;
+            this.pendingDraftChunks = [];
+        } finally {
+            this.draftPending = false;
+        }
+    }
+
+    /**
+     * Write pending chunks to the draft
+     * Writes are queued so parts are always stored in recording order
+     */
+    private flushDraft(): Promise<void> {
+        const draft = this.currentDraft;
+        if (!draft || this.pendingDraftChunks.length === 0) {
+            return this.draftFlushQueue;
+        }
+        
+        const chunks = this.pendingDraftChunks;
+        this.pendingDraftChunks = [];
+        
+        this.draftFlushQueue = this.draftFlushQueue
+            .then(() => this.draftStore.appendChunks(draft, chunks))
+            .catch((error) => {
+                console.error('[Voice AI Journal] Failed to flush recording draft:', error);
+            });
+        return this.draftFlushQueue;
+    }
+
+    private stopDraftFlushTimer(): void {
+        if (this.draftFlushInterval !== null) {
+            window.clearInterval(this.draftFlushInterval);
+            this.draftFlushInterval = null;
+        }
+    }
+
     /**
      * Check if microphone access is available
      * @returns Promise that resolves to true if microphone access is available
@@ -0,0 +1,160 @@
+import { TFile, normalizePath } from 'obsidian';
+import type VoiceAIJournalPlugin from '../../main';
+import { FileService } from './FileService';
+
+/**
+ * Writes a journal note while its template sections are still being generated
+ *
+ * The note is created with a placeholder per section and opened in the editor
+ * right away. Section text is written in as the LLM streams it; writes are
+ * throttled so a fast stream does not rewrite the file for every token.
+ */
+export class StreamingNoteWriter {
+    private plugin: VoiceAIJournalPlugin;
+    private notePath: string;
+    private file: TFile | null = null;
+    private prefix = ''; // Content of an existing note the entry is appended to
+    private header = '';
+    private sections: string[] = [];
+    private timer: number | null = null;
+    private writing: Promise<void> = Promise.resolve();
+    private lastWriteTime = 0;
+    private closed = false;
+
+    // Shown in place of a section until its first text arrives
+    static readonly PLACEHOLDER = '*Generating…*';
+
+    // Minimum time between two writes of the note
+    private static readonly WRITE_INTERVAL_MS = 1000;
+
+    /**
+     * @param plugin The plugin instance
+     * @param notePath Vault path the note is created at
+     */
+    constructor(plugin: VoiceAIJournalPlugin, notePath: string) {
+        this.plugin = plugin;
+        this.notePath = normalizePath(notePath);
+    }
+
+    /**
+     * Whether the entry is streamed into an existing note instead of a new one
+     */
+    get appended(): boolean {
+        return this.prefix.length > 0;
+    }
+
+    /**
+     * Create the note with the frontmatter and a placeholder per section, and open it
+     *
+     * An existing note is appended to if enabled in the settings, otherwise
+     * creating the note fails just like a journal entry written at once.
+     *
+     * @param header Frontmatter written before the sections
+     * @param sections Initial content of every template section
+     */
+    async open(header: string, sections: string[]): Promise<void> {
+        this.header = header;
+        this.sections = [...sections];
+
+        const vault = this.plugin.app.vault;
+        await new FileService(this.plugin.app).ensureFolderExists(this.notePath.substring(0, this.notePath.lastIndexOf('/')));
+
+        const existing = vault.getAbstractFileByPath(this.notePath);
+        if (existing instanceof TFile && this.plugin.settings.appendToExistingNote) {
+            this.prefix = `${await vault.read(existing)}\n\n`;
+            this.file = existing;
+            await vault.modify(existing, this.render());
+        } else {
+            this.file = await vault.create(this.notePath, this.render());
+        }
+        this.lastWriteTime = Date.now();
+
+        await this.plugin.app.workspace.getLeaf().openFile(this.file);
+        console.log(`[Voice AI Journal] Streaming journal entry into ${this.file.path}`);
+    }
+
+    /**
+     * Replace the content of a section; the note is written at most once per interval
+     *
+     * @param index Index of the section in the template
+     * @param content Rendered section content so far
+     */
+    updateSection(index: number, content: string): void {
+        if (this.closed || this.sections[index] === content) {
+            return;
+        }
+        this.sections[index] = content;
+
+        if (!this.file || this.timer !== null) {
+            return;
+        }
+        const wait = Math.max(0, this.lastWriteTime + StreamingNoteWriter.WRITE_INTERVAL_MS - Date.now());
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            // Failures are logged in write, the next update tries again
+            this.write(this.render()).catch(() => undefined);
+        }, wait);
+    }
+
+    /**
+     * Write the final content and stop streaming
+     *
+     * @param content The complete journal entry, replacing the streamed sections
+     * @returns The note, or null if it was never created
+     */
+    async close(content?: string): Promise<TFile | null> {
+        this.closed = true;
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.file) {
+            await this.write(content !== undefined ? this.prefix + content : this.render());
+        }
+        return this.file;
+    }
+
+    /**
+     * Stop streaming after the generation failed, keeping the text generated so far
+     *
+     * Sections still waiting for their first text are marked as not generated.
+     *
+     * @param error The error that stopped the generation
+     */
+    async abort(error: unknown): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        const marker = `*Not generated: ${error instanceof Error ? error.message : String(error)}*`;
+        this.sections = this.sections.map(section => section.split(StreamingNoteWriter.PLACEHOLDER).join(marker));
+        try {
+            await this.close();
+        } catch (closeError) {
+            console.warn('[Voice AI Journal] Failed to finish the streamed journal entry:', closeError);
+        }
+    }
+
+    /**
+     * Get the note content from the streamed sections
+     */
+    private render(): string {
+        return this.prefix + this.header + this.sections.join('');
+    }
+
+    /**
+     * Queue a write of the note after the writes before it
+     */
+    private write(content: string): Promise<void> {
+        const file = this.file;
+        if (!file) {
+            return Promise.resolve();
+        }
+
+        this.lastWriteTime = Date.now();
+        const write = this.writing.then(() => this.plugin.app.vault.modify(file, content));
+        this.writing = write.catch(error => {
+            console.warn('[Voice AI Journal] Failed to update the streamed journal entry:', error);
+        });
+        return write;
+    }
+}
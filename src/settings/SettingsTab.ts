@@ -1,6 +1,9 @@
 import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
 import type VoiceAIJournalPlugin from '../../main';
 import type { AIProvider } from '../types';
+import type { AsrAudioFormat } from '../audio/AudioConverter';
+import { DEFAULT_SETTINGS } from './settings';
+import type { TranscriptionProvider, WhisperOptions, WhisperOutputFormat, WhisperTask } from '../ai/transcription/TranscriptionProvider';
 import { TemplateSettingsTab } from './TemplateSettingsTab';
 
 /**
@@ -104,6 +107,120 @@ export class VoiceAIJournalSettingsTab extends PluginSettingTab {
 				});
 			});
 
+		// Timestamped transcripts
+		new Setting(containerEl)
+			.setName('Timestamped Transcripts')
+			.setDesc('Start each transcript paragraph with a timestamp linking to that position in the recording (requires a provider that returns segment timings)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.timestampedTranscripts)
+				.onChange(async (value) => {
+					this.plugin.settings.timestampedTranscripts = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Export Subtitles')
+			.setDesc('Create .srt and .vtt subtitle files for saved recordings from the transcript timings')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.exportSubtitles)
+				.onChange(async (value) => {
+					this.plugin.settings.exportSubtitles = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.exportSubtitles) {
+			new Setting(containerEl)
+				.setName('Subtitle Location')
+				.setDesc('Where the subtitle files are stored')
+				.addDropdown(dropdown => {
+					dropdown.addOption('recording', 'Next to the recording');
+					dropdown.addOption('transcripts', 'Transcripts folder');
+					dropdown.setValue(this.plugin.settings.subtitleLocation || 'recording');
+					dropdown.onChange(async (value: 'recording' | 'transcripts') => {
+						this.plugin.settings.subtitleLocation = value;
+						await this.plugin.saveSettings();
+					});
+				});
+		}
+
+		// Whisper hallucinations
+		new Setting(containerEl)
+			.setName('Remove Hallucinations')
+			.setDesc('Remove text Whisper tends to invent on silence or noise before the transcript is analyzed: looping repetitions, phrases like "Thanks for watching!" or subtitle credits, and segments that most likely contain no speech. Removed passages are listed in the transcript note')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.removeHallucinations)
+				.onChange(async (value) => {
+					this.plugin.settings.removeHallucinations = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.removeHallucinations) {
+			new Setting(containerEl)
+				.setName('No-Speech Threshold')
+				.setDesc('Segments the backend considers more likely than this to contain no speech are removed (needs no_speech_prob from the backend)')
+				.addSlider(slider => slider
+					.setLimits(0.3, 0.95, 0.05)
+					.setValue(this.plugin.settings.hallucinationNoSpeechThreshold)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.hallucinationNoSpeechThreshold = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// Confidence reported by Whisper backends
+		new Setting(containerEl)
+			.setName('Highlight Low-Confidence Words')
+			.setDesc('Mark words the transcription backend was unsure about with ==highlights== in transcript notes, so you know where to listen again. Needs segment or word probabilities from the backend')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.highlightLowConfidence)
+				.onChange(async (value) => {
+					this.plugin.settings.highlightLowConfidence = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.highlightLowConfidence) {
+			new Setting(containerEl)
+				.setName('Highlight Threshold')
+				.setDesc('Words and segments with a confidence below this value are highlighted')
+				.addSlider(slider => slider
+					.setLimits(0.1, 0.9, 0.05)
+					.setValue(this.plugin.settings.lowConfidenceThreshold)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.lowConfidenceThreshold = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Skip Low-Confidence Segments in Analysis')
+			.setDesc('Leave segments with very low confidence out of the text sent to the template sections. The transcript note keeps them')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.excludeLowConfidenceFromAnalysis)
+				.onChange(async (value) => {
+					this.plugin.settings.excludeLowConfidenceFromAnalysis = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.excludeLowConfidenceFromAnalysis) {
+			new Setting(containerEl)
+				.setName('Minimum Segment Confidence')
+				.setDesc('Segments below this confidence are not analyzed')
+				.addSlider(slider => slider
+					.setLimits(0.05, 0.5, 0.05)
+					.setValue(this.plugin.settings.analysisMinConfidence)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.analysisMinConfidence = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
 		// Audio quality selection
 		new Setting(containerEl)
 			.setName('Audio Quality')
@@ -150,6 +267,80 @@ export class VoiceAIJournalSettingsTab extends PluginSettingTab {
 				});
 			});
 
+		// Crash recovery
+		new Setting(containerEl)
+			.setName('Recording Recovery')
+			.setDesc('Continuously save recordings to a hidden draft so they can be recovered after a crash or when the app is closed')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enableRecordingRecovery)
+				.onChange(async (value) => {
+					this.plugin.settings.enableRecordingRecovery = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Recovery Save Interval')
+			.setDesc('How often (in seconds) the recording is written to the draft. Shorter intervals lose less audio on a crash')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(String(this.plugin.settings.recordingDraftFlushIntervalSeconds))
+					.onChange(async (value) => {
+						const seconds = parseInt(value);
+						if (!isNaN(seconds) && seconds > 0) {
+							this.plugin.settings.recordingDraftFlushIntervalSeconds = seconds;
+							await this.plugin.saveSettings();
+						}
+					});
+			});
+
+		// Voice activity detection
+		new Setting(containerEl)
+			.setName('Auto-Pause on Silence')
+			.setDesc('Pause the recording automatically when nobody is speaking and resume when speech is detected')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.vadAutoPause)
+				.onChange(async (value) => {
+					this.plugin.settings.vadAutoPause = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Silence Duration')
+			.setDesc('Seconds of silence before the recording is paused automatically')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(String(this.plugin.settings.vadSilenceDurationSeconds))
+					.onChange(async (value) => {
+						const seconds = parseFloat(value);
+						if (!isNaN(seconds) && seconds > 0) {
+							this.plugin.settings.vadSilenceDurationSeconds = seconds;
+							await this.plugin.saveSettings();
+						}
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Silence Threshold (dB)')
+			.setDesc('Input level below which audio counts as silence. Raise it (e.g. -40) in noisy rooms, lower it (e.g. -60) for quiet voices')
+			.addSlider(slider => slider
+				.setLimits(-80, -20, 1)
+				.setValue(this.plugin.settings.vadSilenceThresholdDb)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.vadSilenceThresholdDb = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Trim Silence Before Transcription')
+			.setDesc('Remove leading and trailing silence before the audio is sent for transcription. Prevents hallucinated text on dead air')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.trimSilence)
+				.onChange(async (value) => {
+					this.plugin.settings.trimSilence = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// AI Provider Settings Section
 		containerEl.createEl('h3', { text: 'Transcription & AI Settings' });
 
@@ -199,17 +390,18 @@ export class VoiceAIJournalSettingsTab extends PluginSettingTab {
 						new Notice('Please go to Settings > Community plugins > AI Providers > Settings to configure the AI integration.');
 					}));
 		} else {
-			// Transcription source selection (AI Providers vs Local Whisper)
+			// Transcription source selection from the registered transcription providers
+			const transcriptionProviders = this.plugin.asrManager?.getProviderRegistry().getAll() || [];
+			const activeTranscriptionProvider = transcriptionProviders.find(provider => provider.id === this.plugin.settings.transcriptionProvider);
 			new Setting(containerEl)
 				.setName('Transcription Source')
-				.setDesc('Choose between AI Providers plugin or local Whisper server for transcription')
+				.setDesc('Choose the service used for transcription')
 				.addDropdown(dropdown => {
-					dropdown.addOption('aiProviders', 'AI Providers Plugin');
-					dropdown.addOption('localWhisper', 'Local Whisper API');
+					transcriptionProviders.forEach(provider => dropdown.addOption(provider.id, provider.name));
 					
 					dropdown.setValue(this.plugin.settings.transcriptionProvider);
 					
-					dropdown.onChange(async (value: 'aiProviders' | 'localWhisper') => {
+					dropdown.onChange(async (value: string) => {
 						this.plugin.settings.transcriptionProvider = value;
 						await this.plugin.saveSettings();
 						
@@ -230,6 +422,121 @@ export class VoiceAIJournalSettingsTab extends PluginSettingTab {
 							this.plugin.settings.localWhisperEndpoint = value;
 							await this.plugin.saveSettings();
 						}));
+
+				new Setting(containerEl)
+					.setName('Language Detection')
+					.setDesc('How the language is found when the transcription language is set to auto')
+					.addDropdown(dropdown => {
+						dropdown.addOption('response', 'During transcription (single upload)');
+						dropdown.addOption('excerpt', 'Before transcription from the first 30 seconds');
+						dropdown.setValue(this.plugin.settings.asrLanguageDetection || 'response');
+						dropdown.onChange(async (value: 'response' | 'excerpt') => {
+							this.plugin.settings.asrLanguageDetection = value;
+							await this.plugin.saveSettings();
+						});
+					});
+
+				this.renderLocalWhisperOptions(containerEl);
+			}
+			
+			// OpenAI-compatible API settings (only shown when the OpenAI-compatible API is selected)
+			if (this.plugin.settings.transcriptionProvider === 'openAICompatible') {
+				new Setting(containerEl)
+					.setName('API Base URL')
+					.setDesc('Base URL of the OpenAI-compatible API including the version, e.g. http://localhost:8000/v1 or https://api.openai.com/v1')
+					.addText(text => text
+						.setPlaceholder('http://localhost:8000/v1')
+						.setValue(this.plugin.settings.openAIAsrBaseUrl)
+						.onChange(async (value) => {
+							this.plugin.settings.openAIAsrBaseUrl = value;
+							await this.plugin.saveSettings();
+						}));
+
+				new Setting(containerEl)
+					.setName('Model')
+					.setDesc('Transcription model name, e.g. whisper-1 or Systran/faster-whisper-large-v3')
+					.addText(text => text
+						.setPlaceholder('whisper-1')
+						.setValue(this.plugin.settings.openAIAsrModel)
+						.onChange(async (value) => {
+							this.plugin.settings.openAIAsrModel = value;
+							await this.plugin.saveSettings();
+						}));
+
+				new Setting(containerEl)
+					.setName('API Key')
+					.setDesc('Sent as a bearer token. Leave empty for servers without authentication')
+					.addText(text => {
+						text.inputEl.type = 'password';
+						text.setPlaceholder('sk-...')
+							.setValue(this.plugin.settings.openAIAsrApiKey)
+							.onChange(async (value) => {
+								this.plugin.settings.openAIAsrApiKey = value;
+								await this.plugin.saveSettings();
+							});
+					});
+
+				new Setting(containerEl)
+					.setName('Transcription Prompt')
+					.setDesc('Optional text that guides the transcription, e.g. names and terms that should be spelled correctly')
+					.addTextArea(text => text
+						.setValue(this.plugin.settings.openAIAsrPrompt)
+						.onChange(async (value) => {
+							this.plugin.settings.openAIAsrPrompt = value;
+							await this.plugin.saveSettings();
+						}));
+			}
+			
+			// whisper.cpp server settings (only shown when whisper.cpp is selected)
+			if (this.plugin.settings.transcriptionProvider === 'whisperCpp') {
+				new Setting(containerEl)
+					.setName('whisper.cpp Server Endpoint')
+					.setDesc('URL of the whisper.cpp HTTP server (see https://github.com/ggerganov/whisper.cpp/tree/master/examples/server)')
+					.addText(text => text
+						.setPlaceholder('http://127.0.0.1:8080')
+						.setValue(this.plugin.settings.whisperCppEndpoint)
+						.onChange(async (value) => {
+							this.plugin.settings.whisperCppEndpoint = value;
+							await this.plugin.saveSettings();
+						}));
+
+				new Setting(containerEl)
+					.setName('Temperature')
+					.setDesc('Sampling temperature. 0 gives the most deterministic transcript')
+					.addSlider(slider => slider
+						.setLimits(0, 1, 0.1)
+						.setValue(this.plugin.settings.whisperCppTemperature ?? 0)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.whisperCppTemperature = value;
+							await this.plugin.saveSettings();
+						}));
+			}
+			
+			// Speaker diarization (only shown for providers that can label speakers)
+			if (activeTranscriptionProvider?.capabilities.diarization) {
+				new Setting(containerEl)
+					.setName('Speaker Diarization')
+					.setDesc('Label who is speaking in meeting recordings (for the local Whisper API this requires the whisperX engine)')
+					.addToggle(toggle => toggle
+						.setValue(this.plugin.settings.enableDiarization)
+						.onChange(async (value) => {
+							this.plugin.settings.enableDiarization = value;
+							await this.plugin.saveSettings();
+							this.display();
+						}));
+
+				if (this.plugin.settings.enableDiarization) {
+					new Setting(containerEl)
+						.setName('Ask for Speaker Names')
+						.setDesc('Name the speakers after transcription so templates can refer to what each person said')
+						.addToggle(toggle => toggle
+							.setValue(this.plugin.settings.promptForSpeakerNames)
+							.onChange(async (value) => {
+								this.plugin.settings.promptForSpeakerNames = value;
+								await this.plugin.saveSettings();
+							}));
+				}
 			}
 			
 			// AI Provider Transcription selection (only shown when AI Providers is selected)
@@ -258,6 +565,124 @@ export class VoiceAIJournalSettingsTab extends PluginSettingTab {
 					});
 			}
 
+			// Audio format sent to the selected transcription provider
+			new Setting(containerEl)
+				.setName('Transcription Audio Format')
+				.setDesc('Convert recordings before sending them to this transcription provider. Use WAV if the server rejects webm/m4a files. The saved recording keeps its original format')
+				.addDropdown(dropdown => {
+					const provider = this.plugin.settings.transcriptionProvider;
+					dropdown.addOption('original', 'Original recording');
+					dropdown.addOption('wav16k', 'WAV (16 kHz mono)');
+					dropdown.setValue(this.plugin.settings.asrAudioFormat?.[provider] || DEFAULT_SETTINGS.asrAudioFormat[provider] || 'original');
+					dropdown.onChange(async (value: AsrAudioFormat) => {
+						this.plugin.settings.asrAudioFormat = {
+							...this.plugin.settings.asrAudioFormat,
+							[provider]: value
+						};
+						await this.plugin.saveSettings();
+					});
+				});
+
+			// Retries and fallback providers for failed transcriptions
+			this.renderTranscriptionFallbacks(containerEl, transcriptionProviders);
+
+			// Vocabulary note for names and jargon
+			new Setting(containerEl)
+				.setName('Vocabulary Note')
+				.setDesc('Path of a note listing names, products and terms the transcription should spell correctly (one per line, comma-separated, or a "vocabulary" frontmatter list). Templates can override it')
+				.addText(text => text
+					.setPlaceholder('Journal/Vocabulary.md')
+					.setValue(this.plugin.settings.asrVocabularyNote)
+					.onChange(async (value) => {
+						this.plugin.settings.asrVocabularyNote = value.trim();
+						await this.plugin.saveSettings();
+					}));
+
+			// Transcript correction rules
+			this.renderCorrectionRules(containerEl);
+
+			// Chunked transcription of long recordings
+			new Setting(containerEl)
+				.setName('Split Long Recordings')
+				.setDesc('Transcribe long recordings in overlapping chunks to avoid timeouts and reduce memory usage')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.chunkLongRecordings)
+					.onChange(async (value) => {
+						this.plugin.settings.chunkLongRecordings = value;
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			if (this.plugin.settings.chunkLongRecordings) {
+				new Setting(containerEl)
+					.setName('Chunk Length (seconds)')
+					.setDesc('Recordings longer than this are split into chunks of this length')
+					.addText(text => {
+						text.inputEl.type = 'number';
+						text.setValue(String(this.plugin.settings.asrChunkDurationSeconds))
+							.onChange(async (value) => {
+								const seconds = parseInt(value);
+								if (!isNaN(seconds) && seconds >= 30) {
+									this.plugin.settings.asrChunkDurationSeconds = seconds;
+									await this.plugin.saveSettings();
+								}
+							});
+					});
+
+				new Setting(containerEl)
+					.setName('Chunk Overlap (seconds)')
+					.setDesc('Audio shared by consecutive chunks so words at the boundary are not lost')
+					.addText(text => {
+						text.inputEl.type = 'number';
+						text.setValue(String(this.plugin.settings.asrChunkOverlapSeconds))
+							.onChange(async (value) => {
+								const seconds = parseInt(value);
+								if (!isNaN(seconds) && seconds >= 0) {
+									this.plugin.settings.asrChunkOverlapSeconds = seconds;
+									await this.plugin.saveSettings();
+								}
+							});
+					});
+
+				new Setting(containerEl)
+					.setName('Parallel Chunk Requests')
+					.setDesc('How many chunks are transcribed at the same time. Keep at 1 for local servers with a single worker')
+					.addSlider(slider => slider
+						.setLimits(1, 4, 1)
+						.setValue(this.plugin.settings.asrChunkConcurrency)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.asrChunkConcurrency = value;
+							await this.plugin.saveSettings();
+						}));
+			}
+
+			// Live transcription while recording
+			new Setting(containerEl)
+				.setName('Live Transcription')
+				.setDesc('Transcribe the recording in slices while it is running and show a preview in the recording window. Only the last slice is left to transcribe after stopping. Uses more CPU during long recordings')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.liveTranscription)
+					.onChange(async (value) => {
+						this.plugin.settings.liveTranscription = value;
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			if (this.plugin.settings.liveTranscription) {
+				new Setting(containerEl)
+					.setName('Live Slice Length (seconds)')
+					.setDesc('How much new audio is collected before it is transcribed. Slices end at a pause in speech where possible')
+					.addSlider(slider => slider
+						.setLimits(10, 120, 5)
+						.setValue(this.plugin.settings.liveTranscriptionSliceSeconds)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.liveTranscriptionSliceSeconds = value;
+							await this.plugin.saveSettings();
+						}));
+			}
+
 			// Model selection for analysis
 			new Setting(containerEl)
 				.setName('Analysis Provider')
@@ -432,6 +857,266 @@ export class VoiceAIJournalSettingsTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				});
 			});
+
+		// Stream sections toggle
+		new Setting(containerEl)
+			.setName('Stream Sections into the Note')
+			.setDesc('Open the journal note right after transcription and write each section in while the AI is generating it')
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.streamSections);
+				
+				toggle.onChange(async (value) => {
+					this.plugin.settings.streamSections = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		// Parallel section requests
+		new Setting(containerEl)
+			.setName('Parallel Section Requests')
+			.setDesc('How many template sections are generated at the same time. Sections still appear in template order. Keep at 1 for local LLMs that handle one request at a time')
+			.addSlider(slider => slider
+				.setLimits(1, 5, 1)
+				.setValue(this.plugin.settings.sectionConcurrency)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.sectionConcurrency = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/**
+	 * Render the whisper-asr-webservice options of the local Whisper provider
+	 */
+	private renderLocalWhisperOptions(containerEl: HTMLElement): void {
+		const options = { ...DEFAULT_SETTINGS.localWhisperOptions, ...this.plugin.settings.localWhisperOptions };
+		const save = async (changes: Partial<WhisperOptions>) => {
+			Object.assign(options, changes);
+			this.plugin.settings.localWhisperOptions = { ...options };
+			await this.plugin.saveSettings();
+		};
+
+		new Setting(containerEl)
+			.setName('Task')
+			.setDesc('Transcribe in the spoken language or translate the speech into English')
+			.addDropdown(dropdown => {
+				dropdown.addOption('transcribe', 'Transcribe');
+				dropdown.addOption('translate', 'Translate to English');
+				dropdown.setValue(options.task);
+				dropdown.onChange(async (value: WhisperTask) => {
+					await save({ task: value });
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('Encode Audio on Server')
+			.setDesc('Let the server convert the upload with ffmpeg. Only disable this if the audio is already sent as 16 kHz WAV')
+			.addToggle(toggle => toggle
+				.setValue(options.encode)
+				.onChange(async (value) => {
+					await save({ encode: value });
+				}));
+
+		new Setting(containerEl)
+			.setName('Server VAD Filter')
+			.setDesc('Skip non-speech parts on the server (faster-whisper engine only)')
+			.addToggle(toggle => toggle
+				.setValue(options.vadFilter)
+				.onChange(async (value) => {
+					await save({ vadFilter: value });
+				}));
+
+		new Setting(containerEl)
+			.setName('Word Timestamps')
+			.setDesc('Request timings and confidence for every word')
+			.addToggle(toggle => toggle
+				.setValue(options.wordTimestamps)
+				.onChange(async (value) => {
+					await save({ wordTimestamps: value });
+				}));
+
+		new Setting(containerEl)
+			.setName('Initial Prompt')
+			.setDesc('Text that guides the style and spelling of the transcription. The vocabulary note is appended to it')
+			.addTextArea(text => text
+				.setValue(options.initialPrompt)
+				.onChange(async (value) => {
+					await save({ initialPrompt: value });
+				}));
+
+		new Setting(containerEl)
+			.setName('Output Format')
+			.setDesc('Response format requested from the server. Only JSON includes the detected language, speakers and word timings')
+			.addDropdown(dropdown => {
+				dropdown.addOption('json', 'JSON');
+				dropdown.addOption('txt', 'Plain text');
+				dropdown.addOption('vtt', 'WebVTT');
+				dropdown.addOption('srt', 'SRT');
+				dropdown.addOption('tsv', 'TSV');
+				dropdown.setValue(options.output);
+				dropdown.onChange(async (value: WhisperOutputFormat) => {
+					await save({ output: value });
+				});
+			});
+	}
+
+	/**
+	 * Render the retry settings and the ordered fallback provider chain
+	 */
+	private renderTranscriptionFallbacks(containerEl: HTMLElement, providers: TranscriptionProvider[]): void {
+		new Setting(containerEl)
+			.setName('Transcription Retries')
+			.setDesc('How often a provider is retried after network errors, timeouts or server errors. The wait time doubles with every retry')
+			.addSlider(slider => slider
+				.setLimits(0, 5, 1)
+				.setValue(this.plugin.settings.asrMaxRetries ?? 2)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.asrMaxRetries = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('First Retry Delay (seconds)')
+			.setDesc('Wait time before the first retry')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setValue(String(this.plugin.settings.asrRetryBaseDelaySeconds ?? 2))
+					.onChange(async (value) => {
+						const seconds = parseFloat(value);
+						if (!isNaN(seconds) && seconds >= 0) {
+							this.plugin.settings.asrRetryBaseDelaySeconds = seconds;
+							await this.plugin.saveSettings();
+						}
+					});
+			});
+
+		const fallbacks = this.plugin.settings.asrFallbackProviders || [];
+		const available = providers.filter(provider =>
+			provider.id !== this.plugin.settings.transcriptionProvider && !fallbacks.includes(provider.id));
+
+		new Setting(containerEl)
+			.setName('Fallback Providers')
+			.setDesc('Providers tried in this order when the transcription source fails. Configure each provider by selecting it as the transcription source once')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Add fallback provider');
+				available.forEach(provider => dropdown.addOption(provider.id, provider.name));
+				dropdown.onChange(async (value: string) => {
+					if (!value) {
+						return;
+					}
+					this.plugin.settings.asrFallbackProviders = [...fallbacks, value];
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+
+		fallbacks.forEach((providerId, index) => {
+			const provider = providers.find(p => p.id === providerId);
+			new Setting(containerEl)
+				.setName(`${index + 1}. ${provider?.name || providerId}`)
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Try earlier')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						if (index === 0) {
+							return;
+						}
+						const reordered = [...fallbacks];
+						[reordered[index - 1], reordered[index]] = [reordered[index], reordered[index - 1]];
+						this.plugin.settings.asrFallbackProviders = reordered;
+						await this.plugin.saveSettings();
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove fallback')
+					.onClick(async () => {
+						this.plugin.settings.asrFallbackProviders = fallbacks.filter(id => id !== providerId);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+	}
+
+	/**
+	 * Render the editor for transcript correction rules
+	 */
+	private renderCorrectionRules(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Correction Rules Note')
+			.setDesc('Optional note with additional rules, one "find => replace" per line. Wrap the find text in slashes for a regular expression, e.g. /colou?r/i => color')
+			.addText(text => text
+				.setPlaceholder('Journal/Corrections.md')
+				.setValue(this.plugin.settings.correctionRulesNote)
+				.onChange(async (value) => {
+					this.plugin.settings.correctionRulesNote = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		const rules = this.plugin.settings.correctionRules || [];
+		new Setting(containerEl)
+			.setName('Transcript Correction Rules')
+			.setDesc('Find and replace recurring recognition errors after transcription. Applied rules are listed in the transcript note')
+			.addButton(button => button
+				.setButtonText('Add Rule')
+				.onClick(async () => {
+					this.plugin.settings.correctionRules = [
+						...rules,
+						{ find: '', replace: '', regex: false, wholeWord: true, caseSensitive: false }
+					];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		rules.forEach((rule, index) => {
+			new Setting(containerEl)
+				.setClass('voice-journal-correction-rule')
+				.addText(text => text
+					.setPlaceholder('Find')
+					.setValue(rule.find)
+					.onChange(async (value) => {
+						rule.find = value;
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Replace with')
+					.setValue(rule.replace)
+					.onChange(async (value) => {
+						rule.replace = value;
+						await this.plugin.saveSettings();
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip('Regular expression')
+					.setValue(rule.regex)
+					.onChange(async (value) => {
+						rule.regex = value;
+						await this.plugin.saveSettings();
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip('Whole words only')
+					.setValue(rule.wholeWord)
+					.onChange(async (value) => {
+						rule.wholeWord = value;
+						await this.plugin.saveSettings();
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip('Case sensitive')
+					.setValue(rule.caseSensitive)
+					.onChange(async (value) => {
+						rule.caseSensitive = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove rule')
+					.onClick(async () => {
+						this.plugin.settings.correctionRules = rules.filter((_, i) => i !== index);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
 	}
 
 	/**
@@ -1,7 +1,9 @@
 import { App, Setting, Modal, Notice } from 'obsidian';
 import type VoiceAIJournalPlugin from '../../main';
-import type { JournalTemplate } from '../types';
+import type { JournalTemplate, SectionPropertyType, TemplateSection } from '../types';
 import { DEFAULT_JOURNAL_TEMPLATE } from './settings';
+import { WHISPER_LANGUAGES } from '../utils/languageUtils';
+import { isValidPropertyName } from '../utils/structuredSections';
 
 /**
  * Interface for file structure representation
@@ -144,6 +146,11 @@ export class TemplateSettingsTab {
                     .setClass('template-name-setting')
                     .then(st => { st.nameEl.style.fontWeight='bold'; st.nameEl.style.fontSize='var(--h4-size)'; })
                     .addText(txt => { txt.setValue(tmpl.name).onChange(async v=>{ tmpl.name=v; await this.plugin.saveSettings(); }); txt.inputEl.style.width='100%'; });
+                // Vocabulary note override
+                new Setting(editEl)
+                    .setName('Vocabulary Note')
+                    .setDesc('Note with names and terms for transcriptions with this template. Leave empty to use the global vocabulary note')
+                    .addText(txt => { txt.setPlaceholder('Journal/Vocabulary.md').setValue(tmpl.vocabularyNote||'').onChange(async v=>{ tmpl.vocabularyNote=v.trim()||undefined; await this.plugin.saveSettings(); }); txt.inputEl.style.width='100%'; });
                 // Add Section
                 new Setting(editEl)
                     .setName('Add Section')
@@ -163,19 +170,34 @@ export class TemplateSettingsTab {
                         .setClass('section-title-setting')
                         .then(st=>st.nameEl.style.fontWeight='bold')
                         .addText(txt=>{ txt.setValue(sec.title||`Section ${idx+1}`).onChange(async v=>{ sec.title=v; await this.plugin.saveSettings(); }); txt.inputEl.style.width='100%'; txt.inputEl.addEventListener('blur',()=>this.render()); });
-                    // Note Context
+                    // Section type
                     new Setting(sEl)
-                        .setName('Note Context')
-                        .addTextArea(ta=>{
-                            ta.setValue(sec.context||'');
-                            ta.inputEl.rows=4;
-                            ta.inputEl.style.resize='none';
-                            ta.inputEl.style.width='100%';
-                            ta.onChange(async (v: string) => { sec.context = v; await this.plugin.saveSettings(); });
+                        .setName('Section Type')
+                        .setDesc('Properties sections ask the AI for JSON and add the values to the note properties, e.g. for Dataview or Bases queries')
+                        .addDropdown(dd=>{
+                            dd.addOption('text', 'Text in the note');
+                            dd.addOption('properties', 'Note properties');
+                            dd.setValue(sec.type||'text');
+                            dd.onChange(async v=>{ sec.type=v==='properties' ? 'properties' : undefined; await this.plugin.saveSettings(); this.render(); });
                         });
+                    if (sec.type==='properties') {
+                        this.renderSectionProperties(sEl, sec);
+                    } else {
+                        // Note Context
+                        new Setting(sEl)
+                            .setName('Note Context')
+                            .addTextArea(ta=>{
+                                ta.setValue(sec.context||'');
+                                ta.inputEl.rows=4;
+                                ta.inputEl.style.resize='none';
+                                ta.inputEl.style.width='100%';
+                                ta.onChange(async (v: string) => { sec.context = v; await this.plugin.saveSettings(); });
+                            });
+                    }
                     // Prompt
                     new Setting(sEl)
                         .setName('Prompt')
+                        .setDesc('Use the response of another section by its title in snake case, e.g. {{summary}}. The section then runs after that one')
                         .addTextArea(ta=>{
                             ta.setValue(sec.prompt||'');
                             ta.inputEl.rows=4;
@@ -187,6 +209,64 @@ export class TemplateSettingsTab {
                     new Setting(sEl)
                         .setName('Optional Section')
                         .addToggle(tg=>tg.setValue(sec.optional||false).onChange(async v=>{ sec.optional=v; await this.plugin.saveSettings(); }));
+                    // Output language
+                    new Setting(sEl)
+                        .setName('Output Language')
+                        .setDesc('Language of this section. The dominant language is the one most of a code-switched recording was spoken in')
+                        .addDropdown(dd=>{
+                            dd.addOption('', 'Note output language');
+                            dd.addOption('dominant', 'Dominant language of the recording');
+                            Object.entries(WHISPER_LANGUAGES)
+                                .sort((a, b) => a[1].localeCompare(b[1]))
+                                .forEach(([code, name]) => dd.addOption(code, name));
+                            dd.setValue(sec.outputLanguage||'');
+                            dd.onChange(async v=>{ sec.outputLanguage=v||undefined; await this.plugin.saveSettings(); });
+                        });
+                    // AI provider override
+                    const providers = this.plugin.aiManager?.getProviders() || [];
+                    new Setting(sEl)
+                        .setName('AI Provider')
+                        .setDesc('Provider for this section, e.g. a fast model for short sections or a code model for diagrams')
+                        .addDropdown(dd=>{
+                            dd.addOption('', 'Global analysis provider');
+                            providers.forEach(provider=>dd.addOption(provider.id, `${provider.name} (${provider.model})`));
+                            // Keep a provider that is no longer available visible, the global provider is used for it
+                            if (sec.providerId && !providers.some(provider=>provider.id===sec.providerId)) {
+                                dd.addOption(sec.providerId, `${sec.providerId} (not available)`);
+                            }
+                            dd.setValue(sec.providerId||'');
+                            dd.onChange(async v=>{ sec.providerId=v||undefined; sec.model=undefined; await this.plugin.saveSettings(); this.render(); });
+                        });
+                    // Model override
+                    const sectionProvider = providers.find(provider=>provider.id===(sec.providerId||this.plugin.settings.aiProviders.analysis));
+                    const modelSetting = new Setting(sEl)
+                        .setName('Model')
+                        .setDesc('Model of the provider to use for this section. Leave empty for the provider\'s model');
+                    if (sectionProvider?.availableModels?.length) {
+                        modelSetting.addDropdown(dd=>{
+                            dd.addOption('', `Provider default (${sectionProvider.model})`);
+                            sectionProvider.availableModels?.forEach(model=>dd.addOption(model, model));
+                            dd.setValue(sec.model||'');
+                            dd.onChange(async v=>{ sec.model=v||undefined; await this.plugin.saveSettings(); });
+                        });
+                    } else {
+                        modelSetting.addText(txt=>txt.setPlaceholder(sectionProvider?.model||'').setValue(sec.model||'').onChange(async v=>{ sec.model=v.trim()||undefined; await this.plugin.saveSettings(); }));
+                    }
+                    // Temperature override
+                    new Setting(sEl)
+                        .setName('Temperature')
+                        .setDesc('Sampling temperature between 0 and 2. Leave empty for the provider default')
+                        .addText(txt=>{
+                            txt.inputEl.type='number';
+                            txt.setPlaceholder('Default').setValue(sec.temperature!==undefined ? String(sec.temperature) : '');
+                            txt.onChange(async v=>{
+                                const temperature=parseFloat(v);
+                                if (v.trim()==='') { sec.temperature=undefined; }
+                                else if (!isNaN(temperature) && temperature>=0 && temperature<=2) { sec.temperature=temperature; }
+                                else { return; }
+                                await this.plugin.saveSettings();
+                            });
+                        });
                 });
                 // Section removal UI
                 if (tmpl.sections.length > 1) {
@@ -258,6 +338,72 @@ export class TemplateSettingsTab {
         }
     }
 
+    /**
+     * Render the property schema editor of a properties section
+     */
+    private renderSectionProperties(containerEl: HTMLElement, section: TemplateSection): void {
+        section.properties = section.properties || [];
+        const properties = section.properties;
+
+        properties.forEach((property, idx) => {
+            const setting = new Setting(containerEl)
+                .setName(idx === 0 ? 'Properties' : '')
+                .addText(txt => {
+                    txt.setPlaceholder('Name').setValue(property.name);
+                    txt.onChange(async v => { property.name = v.trim(); await this.plugin.saveSettings(); });
+                    // Flag names that cannot be written to the frontmatter
+                    const markInvalid = () => {
+                        txt.inputEl.style.borderColor = property.name && !isValidPropertyName(property.name) ? 'var(--text-error)' : '';
+                    };
+                    txt.inputEl.addEventListener('blur', markInvalid);
+                    markInvalid();
+                })
+                .addDropdown(dd => {
+                    dd.addOption('number', 'Number');
+                    dd.addOption('text', 'Text');
+                    dd.addOption('list', 'List');
+                    dd.addOption('boolean', 'Yes/No');
+                    dd.addOption('date', 'Date');
+                    dd.setValue(property.type);
+                    dd.onChange(async v => { property.type = v as SectionPropertyType; await this.plugin.saveSettings(); this.render(); });
+                })
+                .addText(txt => {
+                    txt.setPlaceholder('Description for the AI').setValue(property.description);
+                    txt.onChange(async v => { property.description = v; await this.plugin.saveSettings(); });
+                });
+            if (property.type === 'number') {
+                const addBound = (placeholder: string, get: () => number | undefined, set: (value: number | undefined) => void) => {
+                    setting.addText(txt => {
+                        txt.inputEl.type = 'number';
+                        txt.inputEl.style.width = '5em';
+                        txt.setPlaceholder(placeholder).setValue(get() !== undefined ? String(get()) : '');
+                        txt.onChange(async v => {
+                            const value = parseFloat(v);
+                            set(isNaN(value) ? undefined : value);
+                            await this.plugin.saveSettings();
+                        });
+                    });
+                };
+                addBound('Min', () => property.min, value => { property.min = value; });
+                addBound('Max', () => property.max, value => { property.max = value; });
+            }
+            setting.addExtraButton(btn => btn.setIcon('trash').setTooltip('Remove property').onClick(async () => {
+                properties.splice(idx, 1);
+                await this.plugin.saveSettings();
+                this.render();
+            }));
+        });
+
+        new Setting(containerEl)
+            .setName(properties.length === 0 ? 'Properties' : '')
+            .setDesc('Names must start with a letter and cannot be tags, source, transcription_provider or languages')
+            .addButton(btn => btn.setButtonText('Add Property').onClick(async () => {
+                properties.push({ name: '', type: 'number', description: '' });
+                await this.plugin.saveSettings();
+                this.render();
+            }));
+    }
+
     /**
      * Get children of a specific folder from a list of abstract files
      */
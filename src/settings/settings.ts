@@ -1,17 +1,52 @@
 import { JournalTemplate } from '../types';
+import type { AsrAudioFormat } from '../audio/AudioConverter';
+import type { CorrectionRule } from '../utils/transcriptCorrections';
+import type { WhisperOptions } from '../ai/transcription/TranscriptionProvider';
 
 /**
  * Interface for plugin settings
  */
 export interface VoiceAIJournalSettings {
 	transcriptsLocation: string; // Folder to store transcript markdown files
+	timestampedTranscripts: boolean; // Prefix transcript paragraphs with timestamps linking into the recording
+	exportSubtitles: boolean; // Write .srt and .vtt subtitles for saved recordings
+	subtitleLocation: 'recording' | 'transcripts'; // Store subtitles next to the recording or in the transcripts folder
+	highlightLowConfidence: boolean; // Mark uncertain words in transcript notes with ==highlights==
+	lowConfidenceThreshold: number; // Words and segments below this confidence (0..1) are highlighted
+	excludeLowConfidenceFromAnalysis: boolean; // Leave very uncertain segments out of the template sections
+	analysisMinConfidence: number; // Segments below this confidence (0..1) are left out of the analysis
+	removeHallucinations: boolean; // Remove repeated lines, subtitle credits and text on silence from transcripts
+	hallucinationNoSpeechThreshold: number; // Segments with a higher `no_speech_prob` count as hallucinated
 	// Template settings
 	templates: JournalTemplate[];
 	defaultTemplate: string;
 
 	// AI provider settings
-	transcriptionProvider: 'aiProviders' | 'localWhisper'; // Which transcription provider to use
+	transcriptionProvider: string; // ID of a registered transcription provider (e.g. 'aiProviders', 'localWhisper')
 	localWhisperEndpoint: string; // URL for local whisper API endpoint
+	localWhisperOptions: WhisperOptions; // Options sent to the whisper-asr-webservice /asr route
+	openAIAsrBaseUrl: string; // Base URL of an OpenAI-compatible API, including /v1
+	openAIAsrModel: string; // Model name sent with OpenAI-compatible transcription requests
+	openAIAsrApiKey: string; // Optional bearer token for the OpenAI-compatible API
+	openAIAsrPrompt: string; // Optional prompt to guide spelling and style of the transcript
+	whisperCppEndpoint: string; // URL of the whisper.cpp server
+	whisperCppTemperature: number; // Sampling temperature for whisper.cpp (0 = deterministic)
+	asrAudioFormat: Record<string, AsrAudioFormat>; // Audio format sent to each transcription provider
+	chunkLongRecordings: boolean; // Split long recordings into chunks before transcription
+	asrChunkDurationSeconds: number; // Length of each transcription chunk
+	asrChunkOverlapSeconds: number; // Overlap between consecutive chunks
+	asrChunkConcurrency: number; // Number of chunks transcribed at the same time
+	liveTranscription: boolean; // Transcribe slices of the recording while it is still running
+	liveTranscriptionSliceSeconds: number; // How often a new slice is sent during live transcription
+	asrVocabularyNote: string; // Vault note with names and terms passed to the transcription as a prompt
+	asrLanguageDetection: 'response' | 'excerpt'; // Detect 'auto' language from the ASR response or from a leading excerpt
+	asrMaxRetries: number; // Retries per provider for transient transcription failures
+	asrRetryBaseDelaySeconds: number; // Delay before the first retry, doubled for each further retry
+	asrFallbackProviders: string[]; // Provider IDs tried in order when the selected provider fails
+	correctionRules: CorrectionRule[]; // Find/replace rules applied to transcripts after ASR
+	correctionRulesNote: string; // Vault note with additional `find => replace` correction rules
+	enableDiarization: boolean; // Ask the ASR backend to label speakers
+	promptForSpeakerNames: boolean; // Ask for speaker names before processing a diarized transcript
 	aiProviders: {
 		transcription: string | null;
 		analysis: string | null;
@@ -25,6 +60,12 @@ export interface VoiceAIJournalSettings {
 	transcriptionLanguage: string; // Language for speech recognition
 	outputLanguage: string; // Language for LLM responses
 	selectedMicrophoneId?: string; // Optional ID of the selected microphone device
+	enableRecordingRecovery: boolean; // Persist recording chunks to disk so crashed sessions can be recovered
+	recordingDraftFlushIntervalSeconds: number; // How often recording chunks are flushed to the draft file
+	vadAutoPause: boolean; // Pause recording automatically on silence and resume on speech
+	vadSilenceThresholdDb: number; // Input level (dBFS) below which audio counts as silence
+	vadSilenceDurationSeconds: number; // Seconds of silence before the recording is auto-paused
+	trimSilence: boolean; // Trim leading and trailing silence before transcription
 
 	// Journal settings
 	noteLocation: string;
@@ -37,6 +78,8 @@ export interface VoiceAIJournalSettings {
 
 	// UI settings
 	includeOptionalSections: boolean;
+	streamSections: boolean; // Create the note before analysis and write section text in as the LLM produces it
+	sectionConcurrency: number; // Number of template sections generated at the same time
 
 	// Version tracking
 	_version: number;
@@ -95,12 +138,56 @@ export const DEFAULT_JOURNAL_TEMPLATE: JournalTemplate = {
  */
 export const DEFAULT_SETTINGS: VoiceAIJournalSettings = {
 	transcriptsLocation: '/Transcripts',
+	timestampedTranscripts: false, // Plain transcript text by default
+	exportSubtitles: false,
+	subtitleLocation: 'recording', // Players and video editors look for subtitles next to the media file
+	highlightLowConfidence: false,
+	lowConfidenceThreshold: 0.5,
+	excludeLowConfidenceFromAnalysis: false,
+	analysisMinConfidence: 0.2, // Only drop segments that are most likely hallucinated or noise
+	removeHallucinations: true,
+	hallucinationNoSpeechThreshold: 0.6, // Whisper's own no-speech threshold
 	templates: [
 		DEFAULT_JOURNAL_TEMPLATE,
 	],
 	defaultTemplate: 'default',
 	transcriptionProvider: 'aiProviders', // Default to AI Providers
 	localWhisperEndpoint: 'http://localhost:9000', // Default endpoint for local whisper API
+	localWhisperOptions: {
+		task: 'transcribe',
+		encode: true, // Let the server decode webm/m4a with ffmpeg
+		vadFilter: false,
+		wordTimestamps: false,
+		initialPrompt: '',
+		output: 'json' // The only format with language, speakers and word timings
+	},
+	openAIAsrBaseUrl: 'http://localhost:8000/v1', // Default port of faster-whisper-server / speaches
+	openAIAsrModel: 'whisper-1',
+	openAIAsrApiKey: '',
+	openAIAsrPrompt: '',
+	whisperCppEndpoint: 'http://127.0.0.1:8080', // Default host and port of the whisper.cpp server
+	whisperCppTemperature: 0,
+	asrAudioFormat: {
+		localWhisper: 'original',
+		aiProviders: 'original',
+		openAICompatible: 'original',
+		whisperCpp: 'wav16k' // The whisper.cpp server only decodes WAV without --convert
+	},
+	chunkLongRecordings: true, // Long sessions would otherwise time out
+	asrChunkDurationSeconds: 600, // 10 minute chunks
+	asrChunkOverlapSeconds: 5, // Enough to cover a word cut at the boundary
+	asrChunkConcurrency: 1, // Sequential by default, local servers usually handle one request at a time
+	liveTranscription: false, // Transcribe after stopping by default
+	liveTranscriptionSliceSeconds: 30, // Long enough for Whisper to have context, short enough for a useful preview
+	asrVocabularyNote: '', // No vocabulary by default
+	asrLanguageDetection: 'response', // One upload per recording
+	asrMaxRetries: 2,
+	asrRetryBaseDelaySeconds: 2, // Retries after about 2s and 4s
+	asrFallbackProviders: [], // Only the selected provider by default
+	correctionRules: [],
+	correctionRulesNote: '',
+	enableDiarization: false, // Requires a diarizing backend such as the whisperX engine
+	promptForSpeakerNames: true, // Ask for names whenever a transcript has speaker labels
 	aiProviders: {
 		transcription: null,
 		analysis: null,
@@ -112,10 +199,18 @@ export const DEFAULT_SETTINGS: VoiceAIJournalSettings = {
 	transcriptionLanguage: 'auto', // Default to auto language detection
 	outputLanguage: 'auto', // Default to auto (use detected language from ASR)
 	selectedMicrophoneId: undefined, // Default to system default microphone
+	enableRecordingRecovery: true, // Keep a draft of every recording until it has been processed
+	recordingDraftFlushIntervalSeconds: 10, // Flush chunks to disk every 10 seconds
+	vadAutoPause: false, // Voice activity detection is opt-in
+	vadSilenceThresholdDb: -50, // Typical room noise sits well below -50 dBFS
+	vadSilenceDurationSeconds: 5, // Auto-pause after 5 seconds of silence
+	trimSilence: false, // Send the recording unchanged by default
 	noteLocation: '/',
 	noteNamingFormat: 'Journal/{{date:YYYY/MM/YYYY-MM-DD}}',
 	recordingsLocation: '/Recordings',
 	appendToExistingNote: false,
 	includeOptionalSections: true, // Include optional template sections by default
+	streamSections: false, // Create the note once all sections are done by default
+	sectionConcurrency: 1, // Sequential by default, local LLMs usually handle one request at a time
 	_version: 1
 };
@@ -24,10 +24,11 @@ export class TemplateManager {
         // Replace date variables (format: {{date:FORMAT}})
         result = this.processDateVariables(result);
         
-        // Replace content variables
-        for (const [key, value] of Object.entries(variables)) {
-            result = result.replace(new RegExp(`{{${key}}}`, 'g'), value);
-        }
+        // Replace content variables in one pass, so names and values are never read as patterns
+        // and values containing {{...}} are not expanded again; unknown placeholders are kept
+        result = result.replace(/{{\s*([^}]+?)\s*}}/g, (placeholder: string, name: string) =>
+            Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+        );
         
         return result;
     }
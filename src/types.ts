@@ -10,6 +10,35 @@ export interface TemplateSection {
 	context: string;
 	optional: boolean;
 	prompt: string;
+	type?: TemplateSectionType; // 'properties' sections fill frontmatter properties instead of the note body
+	properties?: SectionProperty[]; // Schema of the JSON response of a 'properties' section
+	outputLanguage?: string; // 'dominant' for the recording's dominant language, a language code, or empty for the note output language
+	providerId?: string; // AI provider for this section, the global analysis provider if empty
+	model?: string; // Model to use instead of the provider's default model
+	temperature?: number; // Sampling temperature, the provider's default if unset
+}
+
+/**
+ * Kind of output a template section produces
+ * - text: markdown rendered into the note body through the section context
+ * - properties: JSON validated against the section schema and merged into the frontmatter
+ */
+export type TemplateSectionType = 'text' | 'properties';
+
+/**
+ * Value types of structured section properties
+ */
+export type SectionPropertyType = 'number' | 'text' | 'list' | 'boolean' | 'date';
+
+/**
+ * A frontmatter property filled by a structured section
+ */
+export interface SectionProperty {
+	name: string; // Property key in the frontmatter
+	type: SectionPropertyType;
+	description: string; // Tells the LLM what to put in the property
+	min?: number; // Lowest accepted value of number properties
+	max?: number; // Highest accepted value of number properties
 }
 
 export interface JournalTemplate {
@@ -17,6 +46,7 @@ export interface JournalTemplate {
 	name: string;
 	description: string;
 	sections: TemplateSection[];
+	vocabularyNote?: string; // Vault note with transcription vocabulary, overrides the global vocabulary note
 }
 
 /**
@@ -61,6 +91,15 @@ export interface AIExecuteOptions {
     messages?: AIMessage[];
     images?: string[];
     files?: Array<{data: string; type: string; format: string}>;
+    options?: AIExecuteParameters;
+}
+
+/**
+ * Sampling parameters passed on to the provider
+ */
+export interface AIExecuteParameters {
+    temperature?: number;
+    max_tokens?: number;
 }
 
 /**
@@ -311,8 +311,7 @@ export class RecordingModal extends Modal {
             new Notice('Transcribing audio...');
             
             // Transcribe audio
-            const transcriptionProviderId = this.plugin.settings.aiProviders.transcription;
-            const transcriptionResult = await this.aiManager.transcribeAudio(audioBlob, transcriptionProviderId);
+            const transcriptionResult = await this.plugin.asrManager.transcribeAudio(audioBlob);
             
             // Check if we have a valid transcription
             let transcription: string;
@@ -2,6 +2,10 @@ import { Modal, setIcon, Setting, Notice, Platform } from 'obsidian';
 import type VoiceAIJournalPlugin from '../../../main';
 import { formatRecordingTime } from '../utils/timeUtils';
 import { SoundWaveVisualizer } from '../../components/SoundWaveVisualizer';
+import { VoiceActivityDetector } from '../../audio/VoiceActivityDetector';
+import { LiveTranscriber } from '../../recording/LiveTranscriber';
+import { DEFAULT_SETTINGS } from '../../settings/settings';
+import type { WhisperOptions, WhisperOutputFormat } from '../../ai/transcription/TranscriptionProvider';
 
 export interface RecordingModalOptions {
     appendToActiveNote: boolean;
@@ -9,6 +13,8 @@ export interface RecordingModalOptions {
     saveAudioFile: boolean;
     diaryEntryDate: string;
     selectedTemplate: string;
+    whisperOptions: Partial<WhisperOptions>; // Overrides of the local Whisper options for this recording
+    translateToEnglish: boolean; // Also store an English translation of the transcript
 }
 
 /**
@@ -83,6 +89,20 @@ export class RecordingModal extends Modal {
      * - Recording functionality never compromised by visualizer issues
      */
     private soundWave: SoundWaveVisualizer | null = null;
+    
+    /**
+     * Voice activity detector sharing the visualizer's analyser
+     * Only active when auto-pause on silence is enabled in the settings
+     */
+    private vad: VoiceActivityDetector | null = null;
+    private autoPaused = false; // True when the current pause was triggered by the VAD
+    
+    /**
+     * Transcribes the recording in slices while it runs
+     * Only active when live transcription is enabled in the settings
+     */
+    private liveTranscriber: LiveTranscriber | null = null;
+    private livePreviewEl: HTMLElement;
 
     constructor(plugin: VoiceAIJournalPlugin) {
         super(plugin.app);
@@ -97,7 +117,9 @@ export class RecordingModal extends Modal {
             onlyTranscribe: false, // Default to false, can be changed in UI
             saveAudioFile: true, // Default to true, can be changed in UI
             diaryEntryDate: this.getCurrentDate(),
-            selectedTemplate: this.plugin.settings.defaultTemplate || 'Voice AI Journal'
+            selectedTemplate: this.plugin.settings.defaultTemplate || 'Voice AI Journal',
+            whisperOptions: {},
+            translateToEnglish: false
         };
     }
 
@@ -125,6 +147,9 @@ export class RecordingModal extends Modal {
         // Reset the final recording time
         this.finalRecordingTime = null;
         
+        this.stopVoiceActivityDetection();
+        this.stopLiveTranscription();
+        
         // Cleanup visualizer with comprehensive error handling
         if (this.soundWave) {
             try {
@@ -205,6 +230,21 @@ export class RecordingModal extends Modal {
             }
         }
 
+        // --- Live Transcript Preview ---
+        this.livePreviewEl = container.createDiv({ cls: 'vaj-live-transcript' });
+        this.livePreviewEl.setAttr('style', [
+            'display: none;',
+            'max-height: 120px;',
+            'overflow-y: auto;',
+            'margin: 8px 0;',
+            'padding: 8px;',
+            'border-radius: 4px;',
+            'background-color: var(--background-secondary);',
+            'color: var(--text-muted);',
+            'font-size: 0.9em;',
+            'white-space: pre-wrap;'
+        ].join(' '));
+
         // --- Button Controls ---
         const buttonContainer = container.createDiv({ cls: 'vaj-control-buttons-container' });
         buttonContainer.setAttr('style', [
@@ -347,6 +387,71 @@ export class RecordingModal extends Modal {
                 return text;
             });
         
+        // English transcript in addition to the original one
+        new Setting(optionsContainer)
+            .setName('Translate to English')
+            .addToggle(toggle => toggle
+                .setValue(this.options.translateToEnglish)
+                .onChange(value => {
+                    this.options.translateToEnglish = value;
+                    // Keep the original transcript in the spoken language next to the translation
+                    if (value) {
+                        this.options.whisperOptions.task = 'transcribe';
+                    } else {
+                        delete this.options.whisperOptions.task;
+                    }
+                }));
+        
+        // Local Whisper overrides for this recording only
+        if (this.plugin.settings.transcriptionProvider === 'localWhisper') {
+            const whisperOptions = { ...DEFAULT_SETTINGS.localWhisperOptions, ...this.plugin.settings.localWhisperOptions };
+
+            new Setting(optionsContainer)
+                .setName('Encode audio on server')
+                .addToggle(toggle => toggle
+                    .setValue(whisperOptions.encode)
+                    .onChange(value => {
+                        this.options.whisperOptions.encode = value;
+                    }));
+
+            new Setting(optionsContainer)
+                .setName('Server VAD filter')
+                .addToggle(toggle => toggle
+                    .setValue(whisperOptions.vadFilter)
+                    .onChange(value => {
+                        this.options.whisperOptions.vadFilter = value;
+                    }));
+
+            new Setting(optionsContainer)
+                .setName('Word timestamps')
+                .addToggle(toggle => toggle
+                    .setValue(whisperOptions.wordTimestamps)
+                    .onChange(value => {
+                        this.options.whisperOptions.wordTimestamps = value;
+                    }));
+
+            new Setting(optionsContainer)
+                .setName('Initial prompt')
+                .addText(text => text
+                    .setValue(whisperOptions.initialPrompt)
+                    .onChange(value => {
+                        this.options.whisperOptions.initialPrompt = value;
+                    }));
+
+            new Setting(optionsContainer)
+                .setName('Output format')
+                .addDropdown(dropdown => dropdown
+                    .addOption('json', 'JSON')
+                    .addOption('txt', 'Plain text')
+                    .addOption('vtt', 'WebVTT')
+                    .addOption('srt', 'SRT')
+                    .addOption('tsv', 'TSV')
+                    .setValue(whisperOptions.output)
+                    .onChange((value: WhisperOutputFormat) => {
+                        this.options.whisperOptions.output = value;
+                    }));
+        }
+        
         // Template section removed as requested
         
         // Microphone selection - with proper device enumeration
@@ -512,6 +617,9 @@ export class RecordingModal extends Modal {
                 console.log('[Voice AI Journal] Sound wave visualizer not available, continuing without visualization');
             }
             
+            this.startVoiceActivityDetection();
+            this.startLiveTranscription();
+            
             // Request wake lock to keep screen on during recording
             await this.requestWakeLock();
         }
@@ -521,6 +629,8 @@ export class RecordingModal extends Modal {
         const recordingState = this.plugin.getRecordingState();
         
         if (recordingState === 'recording' || recordingState === 'paused') {
+            // A manual pause must not be undone by the VAD
+            this.autoPaused = false;
             const success = await this.plugin.togglePauseResume();
             
             if (success) {
@@ -579,6 +689,8 @@ export class RecordingModal extends Modal {
         // Store the final recording time before stopping
         this.finalRecordingTime = this.plugin.getRecordingTime();
         
+        this.stopVoiceActivityDetection();
+        
         // Stop visualizer with enhanced error handling
         if (this.soundWave) {
             try {
@@ -621,6 +733,9 @@ export class RecordingModal extends Modal {
                 saveAudioFile: this.options.saveAudioFile,
                 diaryEntryDate: this.options.diaryEntryDate,
                 selectedTemplate: this.options.selectedTemplate,
+                whisperOptions: this.options.whisperOptions,
+                translateToEnglish: this.options.translateToEnglish,
+                liveTranscriber: this.liveTranscriber || undefined,
                 modalInstance: this // Pass the modal instance to update status
             });
             // Delay closing the modal so users can read the final step
@@ -643,6 +758,9 @@ export class RecordingModal extends Modal {
             // Clear the final recording time when explicitly resetting
             this.finalRecordingTime = null;
             
+            this.stopVoiceActivityDetection();
+            this.stopLiveTranscription();
+            
             // Reset visualizer to idle state with enhanced error handling
             if (this.soundWave) {
                 try {
@@ -665,6 +783,109 @@ export class RecordingModal extends Modal {
         }
     }
 
+    /**
+     * Start voice activity detection if auto-pause is enabled
+     * Uses the visualizer's analyser, so detection is unavailable without it
+     */
+    private startVoiceActivityDetection() {
+        if (!this.plugin.settings.vadAutoPause) {
+            return;
+        }
+        
+        if (!this.soundWave) {
+            console.warn('[Voice AI Journal] Auto-pause unavailable: sound wave visualizer not initialized');
+            return;
+        }
+        
+        const soundWave = this.soundWave;
+        this.autoPaused = false;
+        this.vad = new VoiceActivityDetector(() => soundWave.getAnalyser(), {
+            thresholdDb: this.plugin.settings.vadSilenceThresholdDb,
+            silenceDurationMs: this.plugin.settings.vadSilenceDurationSeconds * 1000,
+            onSilence: () => this.handleAutoPause(),
+            onSpeech: () => this.handleAutoResume()
+        });
+        this.vad.start();
+    }
+    
+    private stopVoiceActivityDetection() {
+        if (this.vad) {
+            this.vad.stop();
+            this.vad = null;
+        }
+        this.autoPaused = false;
+    }
+    
+    /**
+     * Start transcribing the recording while it runs, if enabled in the settings
+     */
+    private startLiveTranscription() {
+        if (!this.plugin.settings.liveTranscription) {
+            return;
+        }
+        
+        const liveTranscriber = new LiveTranscriber(
+            this.plugin,
+            {
+                language: this.plugin.settings.transcriptionLanguage || 'auto',
+                templateId: this.options.selectedTemplate || this.plugin.settings.defaultTemplate,
+                whisperOptions: this.options.whisperOptions,
+                onUpdate: (previewText) => {
+                    // Ignore slices finishing after the recording was reset
+                    if (this.liveTranscriber !== liveTranscriber) {
+                        return;
+                    }
+                    this.livePreviewEl.setText(previewText);
+                    this.livePreviewEl.style.display = previewText ? 'block' : 'none';
+                    this.livePreviewEl.scrollTop = this.livePreviewEl.scrollHeight;
+                }
+            }
+        );
+        this.liveTranscriber = liveTranscriber;
+        liveTranscriber.start();
+    }
+
+    private stopLiveTranscription() {
+        if (this.liveTranscriber) {
+            this.liveTranscriber.stop();
+            this.liveTranscriber = null;
+        }
+        if (this.livePreviewEl) {
+            this.livePreviewEl.empty();
+            this.livePreviewEl.style.display = 'none';
+        }
+    }
+
+    /**
+     * Pause the recording after the VAD detected a stretch of silence
+     * The visualizer keeps running so the analyser can pick up speech again
+     */
+    private async handleAutoPause() {
+        if (this.plugin.getRecordingState() !== 'recording') {
+            return;
+        }
+        
+        if (await this.plugin.recordingManager.pauseRecording()) {
+            this.autoPaused = true;
+            this.setPauseResumeButton('resume');
+            new Notice('Voice AI Journal: Recording paused (silence detected)');
+        }
+    }
+    
+    /**
+     * Resume a recording that was paused by the VAD once speech is detected
+     */
+    private async handleAutoResume() {
+        if (!this.autoPaused || this.plugin.getRecordingState() !== 'paused') {
+            return;
+        }
+        
+        if (await this.plugin.recordingManager.resumeRecording()) {
+            this.autoPaused = false;
+            this.setPauseResumeButton('pause');
+        }
+    }
+
     private disableButtons() {
         // Disable all buttons during processing
         [this.startButton, this.pauseResumeButton, this.stopButton, this.resetButton].forEach(btn => {
@@ -0,0 +1,91 @@
+import { Modal, Setting, Notice } from 'obsidian';
+import type VoiceAIJournalPlugin from '../../../main';
+import type { RecordingDraft } from '../../recording/RecordingDraftStore';
+
+/**
+ * Modal offering to recover recordings that were interrupted by a crash
+ *
+ * Each orphaned draft can be processed like an uploaded file, saved as an
+ * audio file in the recordings folder, or discarded.
+ */
+export class RecordingRecoveryModal extends Modal {
+    private plugin: VoiceAIJournalPlugin;
+    private drafts: RecordingDraft[];
+    private busy = false;
+
+    constructor(plugin: VoiceAIJournalPlugin, drafts: RecordingDraft[]) {
+        super(plugin.app);
+        this.plugin = plugin;
+        this.drafts = drafts;
+    }
+
+    onOpen() {
+        this.modalEl.addClass('voice-ai-journal-modal');
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (this.drafts.length === 0) {
+            this.close();
+            return;
+        }
+
+        contentEl.createEl('h3', { text: 'Recover interrupted recordings' });
+        contentEl.createEl('p', {
+            text: 'Voice AI Journal found recordings that were not processed, probably because Obsidian was closed or crashed while recording.'
+        });
+
+        this.drafts.forEach(draft => {
+            const startedAt = new Date(draft.startedAt).toLocaleString();
+            const lastSaved = new Date(draft.updatedAt).toLocaleTimeString();
+
+            new Setting(contentEl)
+                .setName(`Recording from ${startedAt}`)
+                .setDesc(`Last saved at ${lastSaved} (${draft.partCount} parts)`)
+                .addButton(button => button
+                    .setButtonText('Process')
+                    .setCta()
+                    .onClick(() => this.runAction(draft, () => this.plugin.processRecoveredDraft(draft))))
+                .addButton(button => button
+                    .setButtonText('Save audio')
+                    .onClick(() => this.runAction(draft, () => this.plugin.saveRecoveredDraft(draft))))
+                .addButton(button => button
+                    .setButtonText('Discard')
+                    .setWarning()
+                    .onClick(() => this.runAction(draft, async () => {
+                        await this.plugin.recordingManager.getDraftStore().deleteDraft(draft);
+                        return true;
+                    })));
+        });
+    }
+
+    /**
+     * Run an action for a draft and remove it from the list if it succeeded
+     */
+    private async runAction(draft: RecordingDraft, action: () => Promise<boolean>): Promise<void> {
+        if (this.busy) {
+            new Notice('Please wait for the current recovery action to finish');
+            return;
+        }
+
+        this.busy = true;
+        try {
+            if (await action()) {
+                this.drafts = this.drafts.filter(d => d.id !== draft.id);
+            }
+        } catch (error) {
+            console.error('[Voice AI Journal] Recording recovery action failed:', error);
+            new Notice(`Recovery failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            this.busy = false;
+            this.render();
+        }
+    }
+}
@@ -0,0 +1,142 @@
+import { Modal, Setting } from 'obsidian';
+import type VoiceAIJournalPlugin from '../../../main';
+import { getBaseSpeakerLabel } from '../../utils/transcriptFormatter';
+
+/**
+ * A speaker found in a diarized transcript
+ */
+export interface SpeakerSample {
+    label: string; // Label returned by the ASR backend (e.g. 'SPEAKER_00')
+    sample: string; // Something the speaker said, to help recognize them
+}
+
+/**
+ * Modal asking for the names of the speakers in a diarized transcript
+ *
+ * The chosen names replace the backend labels in the transcript, so template
+ * sections can refer to what a specific person said. Leaving a name empty keeps
+ * the original label; skipping keeps all labels.
+ *
+ * Long recordings are diarized per chunk, which labels every speaker once per
+ * part. The parts are listed as one speaker whose name applies to all of them,
+ * and can be named separately where the backend mixed people up.
+ */
+export class SpeakerNamesModal extends Modal {
+    private speakers: SpeakerSample[];
+    private groupNames: Record<string, string> = {}; // Name per backend label, for all of its parts
+    private partNames: Record<string, string> = {}; // Names of parts named separately
+    private onSubmit: (names: Record<string, string>) => void;
+    private submitted = false;
+
+    constructor(plugin: VoiceAIJournalPlugin, speakers: SpeakerSample[], onSubmit: (names: Record<string, string>) => void) {
+        super(plugin.app);
+        this.speakers = speakers;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.modalEl.addClass('voice-ai-journal-modal');
+
+        contentEl.createEl('h3', { text: 'Who is speaking?' });
+        contentEl.createEl('p', {
+            text: 'Name the speakers found in the recording. Use the same name twice to merge two speakers.'
+        });
+
+        this.getSpeakerGroups().forEach((parts, base) => {
+            if (parts.length === 1 && parts[0].label === base) {
+                new Setting(contentEl)
+                    .setName(base)
+                    .setDesc(`"${parts[0].sample}"`)
+                    .addText(text => text
+                        .setPlaceholder(base)
+                        .onChange(value => {
+                            this.groupNames[base] = value;
+                        }));
+                return;
+            }
+
+            // Use the longest sample of all parts as a hint
+            const sample = parts.reduce((longest, part) => part.sample.length > longest.length ? part.sample : longest, '');
+            const groupSetting = new Setting(contentEl)
+                .setName(base)
+                .setDesc(`Appears in ${parts.length} parts of the recording: "${sample}"`)
+                .addText(text => text
+                    .setPlaceholder(base)
+                    .onChange(value => {
+                        this.groupNames[base] = value;
+                    }));
+
+            // Diarization may mix people up between parts, so each part can be named on its own
+            const partsEl = contentEl.createDiv();
+            partsEl.style.display = 'none';
+            groupSetting.addExtraButton(button => button
+                .setIcon('list')
+                .setTooltip('Name each part separately')
+                .onClick(() => {
+                    partsEl.style.display = partsEl.style.display === 'none' ? 'block' : 'none';
+                }));
+
+            parts.forEach(part => {
+                new Setting(partsEl)
+                    .setName(part.label)
+                    .setDesc(`"${part.sample}"`)
+                    .addText(text => text
+                        .setPlaceholder(`Same as ${base}`)
+                        .onChange(value => {
+                            this.partNames[part.label] = value;
+                        }));
+            });
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Skip')
+                .onClick(() => this.submit({})))
+            .addButton(button => button
+                .setButtonText('Apply names')
+                .setCta()
+                .onClick(() => this.submit(this.getNames())));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        // Closing the modal without a choice keeps the original labels
+        if (!this.submitted) {
+            this.submitted = true;
+            this.onSubmit({});
+        }
+    }
+
+    /**
+     * Group the speakers by backend label, keeping the order of first appearance
+     */
+    private getSpeakerGroups(): Map<string, SpeakerSample[]> {
+        const groups = new Map<string, SpeakerSample[]>();
+        for (const speaker of this.speakers) {
+            const base = getBaseSpeakerLabel(speaker.label);
+            groups.set(base, [...(groups.get(base) || []), speaker]);
+        }
+        return groups;
+    }
+
+    /**
+     * Get the chosen name of every speaker label, parts fall back to the name of their speaker
+     */
+    private getNames(): Record<string, string> {
+        const names: Record<string, string> = {};
+        for (const speaker of this.speakers) {
+            const name = this.partNames[speaker.label]?.trim() || this.groupNames[getBaseSpeakerLabel(speaker.label)];
+            if (name) {
+                names[speaker.label] = name;
+            }
+        }
+        return names;
+    }
+
+    private submit(names: Record<string, string>) {
+        this.submitted = true;
+        this.onSubmit(names);
+        this.close();
+    }
+}
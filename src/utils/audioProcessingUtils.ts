@@ -1,6 +1,14 @@
 import { Notice, TFile } from 'obsidian';
 import type VoiceAIJournalPlugin from '../../main';
 import { startTimer } from './timerUtils';
+import { createConcurrencyLimiter } from './concurrency';
+import type { LanguageShare } from './languageDetection';
+import { resolveLanguage } from './languageUtils';
+import { StreamingNoteWriter } from '../services/StreamingNoteWriter';
+import type { TemplateSection } from '../types';
+import type { AnalysisModelOptions } from '../ai/AIManager';
+import { buildPropertiesPrompt, formatFrontmatterProperties, parsePropertiesResponse, PropertyValue } from './structuredSections';
+import { getSectionDependencies, getSectionKey, orderSectionsByDependencies } from './sectionDependencies';
 
 /**
  * Generate a concise title for a journal entry
@@ -140,6 +148,12 @@ export async function extractTags(
  * @param transcriptFilePath Optional path of the transcript file
  * @param detectedLanguage Optional detected language name
  * @param languageCode Optional detected language code
+ * @param generatedTitle Optional title of the note
+ * @param modalInstance Optional modal instance for status updates
+ * @param transcriptionProvider Optional name of the provider that produced the transcript
+ * @param translationFilePath Optional path of the English translation of the transcript
+ * @param languages Optional languages spoken in the recording, dominant language first
+ * @param streamingNote Optional note the sections are written into while they are generated
  * @returns Processed content for the journal entry
  */
 export async function processTranscriptionWithTemplate(
@@ -151,7 +165,11 @@ export async function processTranscriptionWithTemplate(
     detectedLanguage?: string,
     languageCode?: string,
     generatedTitle?: string,
-    modalInstance?: { updateProcessingStatus: (statusText: string, step?: number) => void } // Reference to the modal instance for updating UI
+    modalInstance?: { updateProcessingStatus: (statusText: string, step?: number) => void }, // Reference to the modal instance for updating UI
+    transcriptionProvider?: string,
+    translationFilePath?: string,
+    languages?: LanguageShare[],
+    streamingNote?: StreamingNoteWriter
 ): Promise<string> {
     try {
         // Start overall processing timer
@@ -167,6 +185,12 @@ export async function processTranscriptionWithTemplate(
             transcription: transcription
         };
         
+        // Sections can be written in the language most of the recording was spoken in
+        const dominantLanguage = languages?.[0]?.name || detectedLanguage;
+        if (dominantLanguage) {
+            templateVars['dominant_language'] = dominantLanguage;
+        }
+        
         // Get the AI provider for analysis
         const analysisProviderId = plugin.settings.aiProviders.analysis;
         
@@ -185,7 +209,7 @@ export async function processTranscriptionWithTemplate(
         let frontmatter = '---\ntags:\n' + tags.map(tag => `  - ${tag}`).join('\n');
         
         // Add source files if available
-        if (audioFilePath || transcriptFilePath) {
+        if (audioFilePath || transcriptFilePath || translationFilePath) {
             frontmatter += '\nsource:';
             if (audioFilePath) {
                 // Ensure quotes are properly formatted for YAML
@@ -197,6 +221,20 @@ export async function processTranscriptionWithTemplate(
                 const cleanPath = transcriptFilePath.startsWith('/') ? transcriptFilePath.substring(1) : transcriptFilePath;
                 frontmatter += `\n  - "[[${cleanPath}]]"`;
             }
+            if (translationFilePath) {
+                const cleanPath = translationFilePath.startsWith('/') ? translationFilePath.substring(1) : translationFilePath;
+                frontmatter += `\n  - "[[${cleanPath}]]"`;
+            }
+        }
+        
+        // Record which provider transcribed the audio, it may be a fallback
+        if (transcriptionProvider) {
+            frontmatter += `\ntranscription_provider: "${transcriptionProvider}"`;
+        }
+        
+        // List the languages of code-switched recordings, dominant language first
+        if (languages && languages.length > 1) {
+            frontmatter += '\nlanguages:' + languages.map(language => `\n  - ${language.code}`).join('');
         }
         
         frontmatter += '\n---\n\n';
@@ -207,63 +245,175 @@ export async function processTranscriptionWithTemplate(
         // Special token to indicate no results for optional sections
         const NO_RESULTS_TOKEN = "[[NO_RESULTS_FOR_OPTIONAL_SECTION]]";
         
+        // Render a section's context with its (partial) LLM response
+        const renderSection = (section: TemplateSection, response: string) => plugin.templateManager.processTemplate(
+            section.context,
+            { ...templateVars, [getSectionKey(section)]: response, response }
+        );
+        
+        // Skip optional sections that shouldn't be included
+        const isIncluded = (section: TemplateSection) => !section.optional || plugin.settings.includeOptionalSections;
+        
+        // Structured sections fill frontmatter properties instead of the note body
+        const isPropertiesSection = (section: TemplateSection) => section.type === 'properties';
+        const frontmatterProperties: Record<string, PropertyValue> = {};
+        
+        // Sections with a prompt are generated by the LLM, the others only render their context.
+        // Prompts can use the responses of other sections, so they run in dependency order
+        const generatedSections = orderSectionsByDependencies(
+            selectedTemplate.sections.filter(section => isIncluded(section)
+                && (isPropertiesSection(section) || (section.prompt && section.prompt.trim())))
+        );
+        
+        // Open the note with a placeholder for every section that will be generated
+        if (streamingNote) {
+            await streamingNote.open(frontmatter, selectedTemplate.sections.map(section =>
+                generatedSections.includes(section) && !isPropertiesSection(section) ? renderSection(section, StreamingNoteWriter.PLACEHOLDER) : ''
+            ));
+        }
+        
         // Process each template section
         if (selectedTemplate.sections.length > 0) {
             console.log(`[DEBUG TEMPLATE] Processing template: ${selectedTemplate.name} with ${selectedTemplate.sections.length} sections`);
             
-            // Iterate through each section in the template
-            for (const section of selectedTemplate.sections) {
+            const responses = new Map<TemplateSection, string>();
+            
+            // Progress counts finished sections, as several sections may be running at once
+            let completedSections = selectedTemplate.sections.length - generatedSections.length;
+            const runningSections: string[] = [];
+            const reportProgress = () => {
+                if (modalInstance && runningSections.length > 0) {
+                    // Step number: 3 (ASR + Tags + Title) + sections finished so far
+                    const titles = runningSections.map(title => `"${title}"`).join(', ');
+                    modalInstance.updateProcessingStatus(`Processing ${runningSections.length === 1 ? 'section' : 'sections'} ${titles}...`, 3 + completedSections);
+                }
+            };
+            
+            // Generate a section with the LLM once the sections its prompt refers to are done
+            const generateSection = async (section: TemplateSection) => {
                 console.log(`[DEBUG TEMPLATE] Processing section: ${section.title}, Optional: ${section.optional}`);
-                // console.log(`[DEBUG TEMPLATE] Section prompt: ${section.prompt?.substring(0, 100)}...`);
-                // console.log(`[DEBUG TEMPLATE] Section context: ${section.context?.substring(0, 100)}...`);
+                new Notice(`Processing section "${section.title}" with LLM...`);
+                runningSections.push(section.title);
+                reportProgress();
                 
-                // Skip optional sections that shouldn't be included
-                if (section.optional && !plugin.settings.includeOptionalSections) {
-                    console.log(`[DEBUG TEMPLATE] Skipping optional section: ${section.title} (disabled in settings)`);
-                    continue;
+                // Start timer for this section
+                const sectionTimer = startTimer(`Section: ${section.title}`);
+                
+                // Fill in the responses of other sections, sections that were skipped are left empty
+                const promptVars: Record<string, string> = { ...templateVars };
+                for (const other of selectedTemplate.sections) {
+                    promptVars[getSectionKey(other)] = '';
+                }
+                for (const dependency of getSectionDependencies(section, generatedSections)) {
+                    const dependencyResponse = responses.get(dependency) || '';
+                    promptVars[getSectionKey(dependency)] = dependencyResponse.trim() === NO_RESULTS_TOKEN ? '' : dependencyResponse;
                 }
                 
-                // Process this section with the LLM if it has a prompt
-                if (section.prompt && section.prompt.trim()) {
-                    new Notice(`Processing section "${section.title}" with LLM...`);
-                    // Update modal status if available
-                    if (modalInstance) {
-                        // Calculate step number: 3 (ASR + Tags + Title) + current section index
-                        const stepNumber = 3 + selectedTemplate.sections.indexOf(section);
-                        modalInstance.updateProcessingStatus(`Processing section "${section.title}"...`, stepNumber);
+                // Prepare the prompt - add special instructions for optional sections
+                let sectionPrompt = plugin.templateManager.processTemplate(section.prompt, promptVars);
+                if (isPropertiesSection(section)) {
+                    sectionPrompt = buildPropertiesPrompt(sectionPrompt, section.properties || []);
+                }
+                if (section.optional) {
+                    // Add instruction for optional sections to return special token if no valid content
+                    sectionPrompt = `If you cannot provide a meaningful response to this optional section, respond ONLY with ${NO_RESULTS_TOKEN} and nothing else. DO NOT try to make up information if there is nothing relevant in the transcription.\n\n${sectionPrompt}`;
+                }
+                
+                // Log which template and section is about to be processed by the LLM
+                console.log(`[DEBUG LLM PROCESSING] About to process template "${selectedTemplate.name}" section "${section.title}" with LLM...`);
+                
+                // A section can override the note output language with the dominant or a fixed language
+                const sectionLanguage = section.outputLanguage === 'dominant'
+                    ? dominantLanguage
+                    : resolveLanguage(section.outputLanguage).name;
+                
+                // A section can use its own provider and model, falling back to the global analysis provider
+                let sectionProviderId = analysisProviderId;
+                let modelOptions: AnalysisModelOptions = { model: section.model, temperature: section.temperature };
+                if (section.providerId) {
+                    if (plugin.aiManager.getProviderById(section.providerId)) {
+                        sectionProviderId = section.providerId;
+                    } else {
+                        // The model belongs to the missing provider, so only the temperature is kept
+                        console.warn(`[Voice AI Journal] Provider of section "${section.title}" not found, using the analysis provider`);
+                        modelOptions = { temperature: section.temperature };
                     }
-                    
-                    // Start timer for this section
-                    const sectionTimer = startTimer(`Section: ${section.title}`);
-                    
-                    // Prepare the prompt - add special instructions for optional sections
-                    let sectionPrompt = section.prompt;
-                    if (section.optional) {
-                        // Add instruction for optional sections to return special token if no valid content
-                        sectionPrompt = `If you cannot provide a meaningful response to this optional section, respond ONLY with ${NO_RESULTS_TOKEN} and nothing else. DO NOT try to make up information if there is nothing relevant in the transcription.\n\n${sectionPrompt}`;
+                }
+                
+                // Write the response into the note as it streams in, unless it is the no results token
+                const sectionIndex = selectedTemplate.sections.indexOf(section);
+                const onSectionData = streamingNote && !isPropertiesSection(section)
+                    ? (partialText: string) => {
+                        if (!section.optional || !NO_RESULTS_TOKEN.startsWith(partialText.trim())) {
+                            streamingNote.updateSection(sectionIndex, renderSection(section, partialText));
+                        }
                     }
-                    
-                    // Log which template and section is about to be processed by the LLM
-                    console.log(`[DEBUG LLM PROCESSING] About to process template "${selectedTemplate.name}" section "${section.title}" with LLM...`);
-                    
-                    // Get the LLM response for this section
-                    const sectionResponse = await plugin.aiManager.analyzeText(
-                        transcription, 
-                        sectionPrompt, 
-                        analysisProviderId,
-                        detectedLanguage,
-                        languageCode
-                    );
-                    
+                    : undefined;
+                
+                // Get the LLM response for this section
+                const sectionResponse = await plugin.aiManager.analyzeText(
+                    transcription, 
+                    sectionPrompt, 
+                    sectionProviderId,
+                    detectedLanguage,
+                    languageCode,
+                    sectionLanguage,
+                    onSectionData,
+                    modelOptions
+                );
+                responses.set(section, sectionResponse);
+                
+                runningSections.splice(runningSections.indexOf(section.title), 1);
+                completedSections++;
+                reportProgress();
+                
+                // Log timing information for this section
+                sectionTimer.stop();
+                console.log(`[TIMING] Section "${section.title}" processed in ${sectionTimer.getFormattedTime()}, length: ${sectionResponse.length} chars`);
+                new Notice(`Section "${section.title}" processed in ${sectionTimer.getFormattedTime()}`);
+            };
+            
+            // Independent sections run concurrently up to the limit, dependent ones wait for their dependencies
+            const runLimited = createConcurrencyLimiter(plugin.settings.sectionConcurrency);
+            const sectionTasks = new Map<TemplateSection, Promise<void>>();
+            for (const section of generatedSections) {
+                const dependencies = getSectionDependencies(section, generatedSections).map(dependency => sectionTasks.get(dependency));
+                sectionTasks.set(section, Promise.all(dependencies).then(() => runLimited(() => generateSection(section))));
+            }
+            await Promise.all(Array.from(sectionTasks.values()));
+            
+            // Assemble the note in template order, so contexts can use the responses of earlier sections
+            for (const section of selectedTemplate.sections) {
+                const sectionIndex = selectedTemplate.sections.indexOf(section);
+                if (!isIncluded(section)) {
+                    console.log(`[DEBUG TEMPLATE] Skipping optional section: ${section.title} (disabled in settings)`);
+                    continue;
+                }
+                
+                const sectionResponse = responses.get(section);
+                if (sectionResponse !== undefined) {
                     // For optional sections, check if we got the special token
                     if (section.optional && sectionResponse.trim() === NO_RESULTS_TOKEN) {
                         // Skip this section entirely if we got the no results token
                         console.log(`Skipping optional section "${section.title}" as LLM returned no results token`);
+                        streamingNote?.updateSection(sectionIndex, '');
                         continue;
                     }
                     
                     // Add this response to template variables
-                    templateVars[section.title.toLowerCase().replace(/\s+/g, '_')] = sectionResponse;
+                    templateVars[getSectionKey(section)] = sectionResponse;
+                    
+                    // Merge the validated properties into the frontmatter, the body gets nothing
+                    if (isPropertiesSection(section)) {
+                        try {
+                            Object.assign(frontmatterProperties, parsePropertiesResponse(section, sectionResponse));
+                        } catch (parseError) {
+                            console.error(`Failed to parse the properties of section "${section.title}":`, parseError);
+                            console.log('Raw response:', sectionResponse);
+                            new Notice(`Could not read the properties of section "${section.title}"`);
+                        }
+                        continue;
+                    }
                     
                     // Add the raw response as 'response' for this section's context
                     templateVars['response'] = sectionResponse;
@@ -276,11 +426,7 @@ export async function processTranscriptionWithTemplate(
                     
                     // Add to the final journal content
                     journalContent += sectionContent;
-                    
-                    // Log timing information for this section
-                    sectionTimer.stop();
-                    console.log(`[TIMING] Section "${section.title}" processed in ${sectionTimer.getFormattedTime()}, length: ${sectionContent.length} chars`);
-                    new Notice(`Section "${section.title}" processed in ${sectionTimer.getFormattedTime()}`);
+                    streamingNote?.updateSection(sectionIndex, sectionContent);
                 }
                 // If there's a context but no prompt, just process the context with existing variables
                 else if (section.context && section.context.trim()) {
@@ -291,6 +437,7 @@ export async function processTranscriptionWithTemplate(
                         templateVars
                     );
                     journalContent += sectionContent;
+                    streamingNote?.updateSection(sectionIndex, sectionContent);
                     
                     // Log timing information for this context-only section
                     contextSectionTimer.stop();
@@ -300,6 +447,12 @@ export async function processTranscriptionWithTemplate(
             }
         }
         
+        // Add the properties of structured sections to the end of the frontmatter
+        if (Object.keys(frontmatterProperties).length > 0) {
+            const propertiesFrontmatter = frontmatter.replace(/\n---\n\n$/, `\n${formatFrontmatterProperties(frontmatterProperties)}\n---\n\n`);
+            journalContent = propertiesFrontmatter + journalContent.substring(frontmatter.length);
+        }
+        
         // Fallback if template has no sections or processing fails
         if (!journalContent.trim()) {
             new Notice('Using default journal format as template processing failed or no sections found');
@@ -330,40 +483,69 @@ export async function processTranscriptionWithTemplate(
     }
 }
 
+/**
+ * Get the vault path of a journal entry
+ * 
+ * @param plugin The VoiceAIJournalPlugin instance
+ * @param noteFilename The filename for the journal entry
+ * @param generatedTitle Optional title appended to the filename
+ * @returns The path of the note
+ */
+export function getJournalEntryPath(plugin: VoiceAIJournalPlugin, noteFilename: string, generatedTitle?: string): string {
+    // If we have a generated title, append it to the filename
+    let finalFilename = noteFilename;
+    if (generatedTitle && generatedTitle.trim() !== '') {
+        // Extract the date part from the filename (assuming format like 'Journal/2025/05/2025-05-04')
+        const dateMatch = noteFilename.match(/([\d-]+)$/);
+        if (dateMatch && dateMatch[1]) {
+            const datePart = dateMatch[1];
+            const dirPath = noteFilename.substring(0, noteFilename.lastIndexOf(datePart));
+            finalFilename = `${dirPath}${datePart} - ${generatedTitle}`;
+        } else {
+            // If we can't extract the date, just append the title
+            finalFilename = `${noteFilename} - ${generatedTitle}`;
+        }
+    }
+    
+    // Full path for the note
+    return `${plugin.settings.noteLocation}/${finalFilename}.md`.replace(/\/+/g, '/');
+}
+
 /**
  * Create a journal entry from processed content
  * 
  * @param plugin The VoiceAIJournalPlugin instance
  * @param content The processed content
  * @param noteFilename The filename for the journal entry
+ * @param generatedTitle Optional title appended to the filename
+ * @param streamingNote Optional note the entry was streamed into, it is completed and renamed instead of creating a new note
  */
 export async function createJournalEntry(
     plugin: VoiceAIJournalPlugin,
     content: string,
     noteFilename: string,
-    generatedTitle?: string
+    generatedTitle?: string,
+    streamingNote?: StreamingNoteWriter
 ): Promise<void> {
     // Start timer for journal entry creation
     const journalCreationTimer = startTimer('Journal Entry Creation');
     try {
-        // If we have a generated title, append it to the filename
-        let finalFilename = noteFilename;
-        if (generatedTitle && generatedTitle.trim() !== '') {
-            // Extract the date part from the filename (assuming format like 'Journal/2025/05/2025-05-04')
-            const dateMatch = noteFilename.match(/([\d-]+)$/);
-            if (dateMatch && dateMatch[1]) {
-                const datePart = dateMatch[1];
-                const dirPath = noteFilename.substring(0, noteFilename.lastIndexOf(datePart));
-                finalFilename = `${dirPath}${datePart} - ${generatedTitle}`;
-            } else {
-                // If we can't extract the date, just append the title
-                finalFilename = `${noteFilename} - ${generatedTitle}`;
+        const notePath = getJournalEntryPath(plugin, noteFilename, generatedTitle);
+        
+        // The streamed note is already open, write the final content and give it the titled name
+        if (streamingNote) {
+            const streamedFile = await streamingNote.close(content);
+            if (streamedFile && !streamingNote.appended && streamedFile.path !== notePath
+                && !plugin.app.vault.getAbstractFileByPath(notePath)) {
+                await plugin.app.fileManager.renameFile(streamedFile, notePath);
             }
+            
+            journalCreationTimer.stop();
+            console.log(`[TIMING] Streamed journal entry completed in ${journalCreationTimer.getFormattedTime()}`);
+            new Notice(`Journal entry created: ${noteFilename} (in ${journalCreationTimer.getFormattedTime()})`);
+            return;
         }
         
-        // Full path for the note
-        const notePath = `${plugin.settings.noteLocation}/${finalFilename}.md`.replace(/\/+/g, '/');
-        
         // Ensure the directory exists
         const folderPath = notePath.substring(0, notePath.lastIndexOf('/'));
         if (folderPath) {
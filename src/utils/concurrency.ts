@@ -0,0 +1,84 @@
+/**
+ * Map over items with at most `limit` async operations running at once
+ *
+ * Results are returned in the order of the input items, regardless of the
+ * order in which the operations complete. The first rejection rejects the
+ * whole call and no further operations are started, but already started
+ * operations are allowed to finish.
+ *
+ * @param items Items to process
+ * @param limit Maximum number of concurrent operations (values below 1 are treated as 1)
+ * @param fn Async operation to run for each item
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+    let failed = false;
+
+    const worker = async (): Promise<void> => {
+        while (!failed && nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                results[index] = await fn(items[index], index);
+            } catch (error) {
+                // Stop the other workers from taking items whose results would be discarded
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < workerCount; i++) {
+        workers.push(worker());
+    }
+    await Promise.all(workers);
+
+    return results;
+}
+
+/**
+ * Create a limiter that runs at most `limit` async operations at once
+ *
+ * Unlike `mapWithConcurrency` the operations do not have to be known up front,
+ * so work can be submitted as soon as it is ready. Operations over the limit
+ * wait and start in the order they were submitted.
+ *
+ * @param limit Maximum number of concurrent operations (values below 1 are treated as 1)
+ * @returns Function that runs an operation once a slot is free
+ */
+export function createConcurrencyLimiter(limit: number): <R>(fn: () => Promise<R>) => Promise<R> {
+    const maxRunning = Math.max(1, Math.floor(limit));
+    const waiting: (() => void)[] = [];
+    let running = 0;
+
+    const startNext = () => {
+        while (running < maxRunning && waiting.length > 0) {
+            running++;
+            (waiting.shift() as () => void)();
+        }
+    };
+
+    return <R>(fn: () => Promise<R>) => new Promise<R>((resolve, reject) => {
+        waiting.push(() => {
+            const done = () => {
+                running--;
+                startNext();
+            };
+            fn().then(result => {
+                done();
+                resolve(result);
+            }, error => {
+                done();
+                reject(error);
+            });
+        });
+        startNext();
+    });
+}
@@ -0,0 +1,230 @@
+import type { TranscriptionResult, TranscriptionSegment } from '../ai/transcription/TranscriptionProvider';
+import { normalizeWord } from './transcriptStitcher';
+import { formatTimestamp } from './transcriptFormatter';
+
+/**
+ * Why a passage was considered a hallucination
+ */
+export type HallucinationReason = 'repetition' | 'phrase' | 'noSpeech';
+
+/**
+ * A passage removed from the transcript as a likely hallucination
+ */
+export interface HallucinationFinding {
+    text: string;
+    reason: HallucinationReason;
+    start?: number; // Position in the recording (seconds), if segment timings are available
+}
+
+/**
+ * Phrases Whisper produces on silence or noise, learned from subtitled videos
+ * Compared after lowercasing and removing punctuation
+ */
+const KNOWN_HALLUCINATION_PHRASES = [
+    'thanks for watching',
+    'thank you for watching',
+    'thank you so much for watching',
+    'thanks for watching and see you next time',
+    'please subscribe',
+    'please like and subscribe',
+    'dont forget to like and subscribe',
+    'subtitles by the amaraorg community',
+    'transcription by castingwords',
+    'untertitel im auftrag des zdf',
+    'untertitel im auftrag des zdf 2017',
+    'untertitel im auftrag des zdf 2018',
+    'untertitel im auftrag des zdf 2020',
+    'untertitelung aufgrund der amaraorg community',
+    'untertitel der amaraorg community',
+    'vielen dank fürs zuschauen',
+    'soustitres réalisés par la communauté damaraorg',
+    'merci davoir regardé cette vidéo',
+    'subtítulos realizados por la comunidad de amaraorg',
+    'gracias por ver el video',
+    'sottotitoli creati dalla comunità amaraorg',
+    'ondertitels ingediend door de amaraorg gemeenschap',
+    'продолжение следует',
+    'ご視聴ありがとうございました'
+];
+
+/**
+ * Options for hallucination detection
+ */
+export interface HallucinationFilterOptions {
+    noSpeechThreshold: number; // Segments more likely than this to contain no speech are removed
+}
+
+/**
+ * Normalize text for phrase comparison (case and punctuation insensitive)
+ */
+function normalizeText(text: string): string {
+    return text.split(/\s+/).map(normalizeWord).filter(word => word.length > 0).join(' ');
+}
+
+/**
+ * Check whether a text consists of nothing but a known hallucination phrase
+ */
+function isKnownPhrase(text: string): boolean {
+    const normalized = normalizeText(text);
+    return normalized.length > 0 && KNOWN_HALLUCINATION_PHRASES.includes(normalized);
+}
+
+/**
+ * Collapse phrases that repeat three or more times in a row into a single occurrence
+ *
+ * Whisper can get stuck in a loop and emit the same words over and over. Single
+ * words need four repetitions, so emphasis like "very very very" is kept.
+ *
+ * @param text Transcript text
+ * @param maxPhraseWords Longest repeated phrase to look for
+ * @returns The collapsed text and the phrases that were repeated
+ */
+export function collapseRepetitions(text: string, maxPhraseWords = 10): { text: string; repeated: string[] } {
+    const words = text.split(/\s+/).filter(word => word.length > 0);
+    const normalized = words.map(normalizeWord);
+    const matches = (a: number, b: number, length: number) => {
+        for (let i = 0; i < length; i++) {
+            if (normalized[a + i] !== normalized[b + i] || !normalized[a + i]) {
+                return false;
+            }
+        }
+        return true;
+    };
+
+    const output: string[] = [];
+    const repeated: string[] = [];
+    let position = 0;
+    while (position < words.length) {
+        // Prefer the repetition covering the most words
+        let best: { length: number; count: number } | null = null;
+        for (let length = 1; length <= maxPhraseWords && position + length * 2 <= words.length; length++) {
+            let count = 1;
+            while (position + (count + 1) * length <= words.length && matches(position, position + count * length, length)) {
+                count++;
+            }
+            const minCount = length === 1 ? 4 : 3;
+            if (count >= minCount && (!best || count * length > best.count * best.length)) {
+                best = { length, count };
+            }
+        }
+
+        if (best) {
+            const phrase = words.slice(position, position + best.length);
+            output.push(...phrase);
+            repeated.push(`${phrase.join(' ')} (${best.count}×)`);
+            position += best.length * best.count;
+        } else {
+            output.push(words[position]);
+            position++;
+        }
+    }
+
+    return { text: repeated.length > 0 ? output.join(' ') : text, repeated };
+}
+
+/**
+ * Find the reason a segment should be dropped, if any
+ */
+function getSegmentHallucination(
+    segment: TranscriptionSegment,
+    previous: TranscriptionSegment[],
+    options: HallucinationFilterOptions
+): HallucinationReason | null {
+    // Whisper's own rule: likely no speech and the decoded text is improbable as well
+    if (segment.noSpeechProb !== undefined && segment.noSpeechProb > options.noSpeechThreshold
+        && (segment.avgLogprob === undefined || segment.avgLogprob < -1)) {
+        return 'noSpeech';
+    }
+    if (isKnownPhrase(segment.text)) {
+        return 'phrase';
+    }
+
+    // The same sentence again right after itself; short answers like "Yes." may repeat once
+    const text = normalizeText(segment.text);
+    let runLength = 0;
+    for (let i = previous.length - 1; i >= 0 && normalizeText(previous[i].text) === text; i--) {
+        runLength++;
+    }
+    if (text && runLength > 0 && (runLength >= 2 || text.split(' ').length >= 3)) {
+        return 'repetition';
+    }
+    return null;
+}
+
+/**
+ * Remove likely hallucinations from a transcription result
+ *
+ * Segments with a high no-speech probability, known subtitle phrases and
+ * repeated segments are dropped, and phrases looping within a segment are
+ * collapsed. Without segment timings only the text checks are applied.
+ *
+ * @param result The transcription result
+ * @param options Detection thresholds
+ * @returns The cleaned result with the removed passages in `hallucinations`
+ */
+export function removeHallucinations(result: TranscriptionResult, options: HallucinationFilterOptions): TranscriptionResult {
+    const findings: HallucinationFinding[] = [];
+
+    if (!result.segments || result.segments.length === 0) {
+        // Plain text: drop known phrases sentence by sentence, then collapse loops
+        const sentences = result.text.match(/[^.!?。！？]+[.!?。！？]*/g) || [result.text];
+        const kept = sentences.filter(sentence => {
+            if (isKnownPhrase(sentence)) {
+                findings.push({ text: sentence.trim(), reason: 'phrase' });
+                return false;
+            }
+            return true;
+        });
+        const collapsed = collapseRepetitions(kept.join('').replace(/\s{2,}/g, ' ').trim());
+        findings.push(...collapsed.repeated.map(text => ({ text, reason: 'repetition' as const })));
+
+        return findings.length > 0 ? { ...result, text: collapsed.text, hallucinations: findings } : result;
+    }
+
+    const segments: TranscriptionSegment[] = [];
+    for (const segment of result.segments) {
+        const reason = getSegmentHallucination(segment, segments, options);
+        if (reason) {
+            findings.push({ text: segment.text, reason, start: segment.start });
+            continue;
+        }
+
+        const collapsed = collapseRepetitions(segment.text);
+        findings.push(...collapsed.repeated.map(text => ({ text, reason: 'repetition' as const, start: segment.start })));
+        segments.push(collapsed.text === segment.text ? segment : { ...segment, text: collapsed.text, words: undefined });
+    }
+
+    if (findings.length === 0) {
+        return result;
+    }
+
+    console.log(`[VoiceAIJournal] Removed ${findings.length} likely hallucinations from the transcript`);
+    return {
+        ...result,
+        text: segments.map(segment => segment.text).filter(text => text.length > 0).join(' '),
+        segments,
+        hallucinations: findings
+    };
+}
+
+const REASON_LABELS: Record<HallucinationReason, string> = {
+    repetition: 'repetition',
+    phrase: 'known phrase',
+    noSpeech: 'no speech'
+};
+
+/**
+ * Render the list of removed hallucinations for the transcript note
+ * @param findings Passages removed from the transcript
+ * @returns A collapsed callout listing the passages, or an empty string
+ */
+export function formatHallucinationReport(findings: HallucinationFinding[]): string {
+    if (findings.length === 0) {
+        return '';
+    }
+    const lines = findings.map(finding => {
+        const position = finding.start !== undefined ? `${formatTimestamp(finding.start)} ` : '';
+        return `> - ${position}"${finding.text.trim()}" (${REASON_LABELS[finding.reason]})`;
+    });
+    return `> [!warning]- Removed likely hallucinations\n${lines.join('\n')}`;
+}
@@ -0,0 +1,151 @@
+import type { TranscriptionResult, TranscriptionSegment } from '../ai/transcription/TranscriptionProvider';
+import { resolveLanguage } from './languageUtils';
+import { normalizeWord } from './transcriptStitcher';
+
+/**
+ * How much of a recording was spoken in one language
+ */
+export interface LanguageShare {
+    code: string; // ISO language code
+    name: string; // Display name
+    share: number; // Fraction of the recording (0..1)
+}
+
+/**
+ * Frequent function words of languages written in Latin script, compared after
+ * lowercasing and removing punctuation. Words shared by several languages count
+ * for each of them; the language with clearly the most hits wins.
+ */
+const STOPWORDS: Record<string, string[]> = {
+    en: ['the', 'and', 'is', 'are', 'was', 'were', 'of', 'to', 'that', 'this', 'with', 'have', 'has', 'it', 'you', 'we', 'they', 'not', 'but', 'what', 'would', 'will', 'just', 'so', 'about', 'there', 'for', 'be', 'dont', 'its'],
+    de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'wir', 'sie', 'ein', 'eine', 'mit', 'auf', 'auch', 'es', 'zu', 'dass', 'war', 'haben', 'wie', 'aber', 'noch', 'oder', 'sind', 'dann', 'mal', 'schon', 'jetzt'],
+    fr: ['le', 'la', 'les', 'et', 'est', 'une', 'des', 'que', 'qui', 'pas', 'je', 'nous', 'vous', 'il', 'elle', 'avec', 'pour', 'dans', 'sur', 'cest', 'mais', 'ont', 'sont', 'très', 'aussi', 'ça'],
+    es: ['el', 'los', 'las', 'y', 'es', 'una', 'que', 'del', 'por', 'con', 'para', 'pero', 'está', 'yo', 'nosotros', 'muy', 'también', 'como', 'más', 'lo', 'se', 'eso', 'esto'],
+    it: ['il', 'lo', 'gli', 'e', 'è', 'una', 'che', 'di', 'per', 'con', 'non', 'sono', 'anche', 'questo', 'molto', 'ma', 'ho', 'abbiamo', 'come', 'più', 'della'],
+    pt: ['o', 'os', 'as', 'e', 'é', 'uma', 'que', 'do', 'da', 'não', 'com', 'para', 'mas', 'muito', 'também', 'eu', 'nós', 'isso', 'está', 'são', 'como', 'mais'],
+    nl: ['de', 'het', 'een', 'en', 'is', 'niet', 'ik', 'wij', 'we', 'zijn', 'van', 'met', 'op', 'ook', 'dat', 'maar', 'dit', 'heb', 'hebben', 'wat', 'er']
+};
+
+/**
+ * Scripts that identify a language (or a family of languages) on their own.
+ * The first code is used unless the recording's language is another member.
+ */
+const SCRIPTS: { pattern: RegExp; codes: string[] }[] = [
+    { pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u, codes: ['ja'] },
+    { pattern: /\p{Script=Hangul}/u, codes: ['ko'] },
+    { pattern: /\p{Script=Han}/u, codes: ['zh', 'yue', 'ja'] },
+    { pattern: /\p{Script=Cyrillic}/u, codes: ['ru', 'uk', 'bg', 'sr', 'mk', 'be', 'kk', 'mn', 'tg', 'tt', 'ba'] },
+    { pattern: /\p{Script=Arabic}/u, codes: ['ar', 'fa', 'ur', 'ps', 'sd'] },
+    { pattern: /\p{Script=Greek}/u, codes: ['el'] },
+    { pattern: /\p{Script=Hebrew}/u, codes: ['he', 'yi'] },
+    { pattern: /\p{Script=Thai}/u, codes: ['th'] },
+    { pattern: /\p{Script=Devanagari}/u, codes: ['hi', 'mr', 'ne', 'sa'] }
+];
+
+// Latin-script text shorter than this is too ambiguous to classify
+const MIN_WORDS = 4;
+
+/**
+ * Guess the language of a short piece of transcript text
+ *
+ * Non-Latin scripts are recognized by their characters, Latin-script languages by
+ * their most frequent function words. Only common languages are recognized, text
+ * in any other language returns undefined.
+ *
+ * @param text Transcript text, typically one segment
+ * @param hint Language code of the recording, preferred when the text is ambiguous
+ * @returns ISO language code, or undefined if the language is unclear
+ */
+export function detectTextLanguage(text: string, hint?: string): string | undefined {
+    const letters = Array.from(text).filter(char => /\p{L}/u.test(char));
+    if (letters.length === 0) {
+        return undefined;
+    }
+
+    // A script used by most letters decides on its own
+    for (const script of SCRIPTS) {
+        const count = letters.filter(char => script.pattern.test(char)).length;
+        if (count / letters.length > 0.5) {
+            return hint && script.codes.includes(hint) ? hint : script.codes[0];
+        }
+    }
+
+    const words = text.split(/\s+/).map(normalizeWord).filter(word => word.length > 0);
+    if (words.length < MIN_WORDS) {
+        return undefined;
+    }
+
+    const scores = Object.entries(STOPWORDS)
+        .map(([code, stopwords]) => ({ code, hits: words.filter(word => stopwords.includes(word)).length }))
+        .sort((a, b) => b.hits - a.hits || (a.code === hint ? -1 : b.code === hint ? 1 : 0));
+    const [best, second] = scores;
+    if (best.hits < 2 || (best.hits === second.hits && best.code !== hint)) {
+        return undefined;
+    }
+    return best.code;
+}
+
+/**
+ * Sum up the weights per language into shares, largest first
+ */
+function toLanguageShares(weights: Map<string, number>): LanguageShare[] {
+    const total = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) {
+        return [];
+    }
+    return Array.from(weights.entries())
+        .map(([code, weight]) => ({
+            code,
+            name: resolveLanguage(code).name || code,
+            share: Math.round(weight / total * 100) / 100
+        }))
+        .sort((a, b) => b.share - a.share);
+}
+
+/**
+ * Tag every segment with its spoken language and work out the dominant language
+ *
+ * Whisper reports a single language per request, so code-switched recordings are
+ * tagged from the segment text. Segments that cannot be classified, like short
+ * interjections, keep the language of the segment before them. Shares are weighted
+ * by segment duration, or by word count when the result has no segments.
+ *
+ * @param result The transcription result
+ * @returns The result with tagged segments and `languages`, dominant language first
+ */
+export function tagSegmentLanguages(result: TranscriptionResult): TranscriptionResult {
+    const weights = new Map<string, number>();
+    const addWeight = (code: string | undefined, weight: number) => {
+        if (code && weight > 0) {
+            weights.set(code, (weights.get(code) || 0) + weight);
+        }
+    };
+
+    let segments: TranscriptionSegment[] | undefined;
+    if (result.segments && result.segments.length > 0) {
+        let current = result.languageCode;
+        segments = result.segments.map(segment => {
+            const language = segment.language || detectTextLanguage(segment.text, result.languageCode) || current;
+            current = language;
+            addWeight(language, segment.end - segment.start);
+            return language ? { ...segment, language } : segment;
+        });
+    } else {
+        let current = result.languageCode;
+        const sentences = result.text.match(/[^.!?。！？]+[.!?。！？]*/g) || [result.text];
+        for (const sentence of sentences) {
+            current = detectTextLanguage(sentence, result.languageCode) || current;
+            addWeight(current, sentence.split(/\s+/).filter(word => word.length > 0).length);
+        }
+    }
+
+    const languages = toLanguageShares(weights);
+    if (languages.length > 1) {
+        console.log(`[VoiceAIJournal] Recording is code-switched: ${languages.map(language => `${language.name} ${Math.round(language.share * 100)}%`).join(', ')}`);
+    }
+    return {
+        ...result,
+        segments: segments || result.segments,
+        languages: languages.length > 0 ? languages : undefined
+    };
+}
@@ -0,0 +1,54 @@
+/**
+ * Languages supported by Whisper models, keyed by ISO 639-1 code
+ * (a few languages without a two-letter code use ISO 639-2/3)
+ */
+export const WHISPER_LANGUAGES: Record<string, string> = {
+    en: 'English', zh: 'Chinese', de: 'German', es: 'Spanish', ru: 'Russian',
+    ko: 'Korean', fr: 'French', ja: 'Japanese', pt: 'Portuguese', tr: 'Turkish',
+    pl: 'Polish', ca: 'Catalan', nl: 'Dutch', ar: 'Arabic', sv: 'Swedish',
+    it: 'Italian', id: 'Indonesian', hi: 'Hindi', fi: 'Finnish', vi: 'Vietnamese',
+    he: 'Hebrew', uk: 'Ukrainian', el: 'Greek', ms: 'Malay', cs: 'Czech',
+    ro: 'Romanian', da: 'Danish', hu: 'Hungarian', ta: 'Tamil', no: 'Norwegian',
+    th: 'Thai', ur: 'Urdu', hr: 'Croatian', bg: 'Bulgarian', lt: 'Lithuanian',
+    la: 'Latin', mi: 'Maori', ml: 'Malayalam', cy: 'Welsh', sk: 'Slovak',
+    te: 'Telugu', fa: 'Persian', lv: 'Latvian', bn: 'Bengali', sr: 'Serbian',
+    az: 'Azerbaijani', sl: 'Slovenian', kn: 'Kannada', et: 'Estonian', mk: 'Macedonian',
+    br: 'Breton', eu: 'Basque', is: 'Icelandic', hy: 'Armenian', ne: 'Nepali',
+    mn: 'Mongolian', bs: 'Bosnian', kk: 'Kazakh', sq: 'Albanian', sw: 'Swahili',
+    gl: 'Galician', mr: 'Marathi', pa: 'Punjabi', si: 'Sinhala', km: 'Khmer',
+    sn: 'Shona', yo: 'Yoruba', so: 'Somali', af: 'Afrikaans', oc: 'Occitan',
+    ka: 'Georgian', be: 'Belarusian', tg: 'Tajik', sd: 'Sindhi', gu: 'Gujarati',
+    am: 'Amharic', yi: 'Yiddish', lo: 'Lao', uz: 'Uzbek', fo: 'Faroese',
+    ht: 'Haitian Creole', ps: 'Pashto', tk: 'Turkmen', nn: 'Nynorsk', mt: 'Maltese',
+    sa: 'Sanskrit', lb: 'Luxembourgish', my: 'Myanmar', bo: 'Tibetan', tl: 'Tagalog',
+    mg: 'Malagasy', as: 'Assamese', tt: 'Tatar', haw: 'Hawaiian', ln: 'Lingala',
+    ha: 'Hausa', ba: 'Bashkir', jw: 'Javanese', su: 'Sundanese', yue: 'Cantonese'
+};
+
+/**
+ * Resolve a language reported by an ASR backend to code and name
+ *
+ * Backends differ in what they return: some send the ISO code ('de'),
+ * others the lowercase English name ('german').
+ *
+ * @param value Language code or name
+ * @returns Code and display name, either may be missing for unknown languages
+ */
+export function resolveLanguage(value: string | undefined | null): { code?: string; name?: string } {
+    const normalized = (value || '').trim().toLowerCase();
+    if (!normalized) {
+        return {};
+    }
+
+    if (WHISPER_LANGUAGES[normalized]) {
+        return { code: normalized, name: WHISPER_LANGUAGES[normalized] };
+    }
+
+    const code = Object.keys(WHISPER_LANGUAGES).find(key => WHISPER_LANGUAGES[key].toLowerCase() === normalized);
+    if (code) {
+        return { code, name: WHISPER_LANGUAGES[code] };
+    }
+
+    // Unknown language, keep the name so it can still be shown
+    return { name: normalized.charAt(0).toUpperCase() + normalized.slice(1) };
+}
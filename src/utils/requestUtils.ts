@@ -0,0 +1,80 @@
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+
+/**
+ * MIME types of the audio formats the plugin records or accepts for upload
+ */
+export const AUDIO_MIME_TYPES: Record<string, string> = {
+    'webm': 'audio/webm',
+    'mp3': 'audio/mpeg',
+    'mp4': 'audio/mp4',
+    'm4a': 'audio/mp4',
+    'wav': 'audio/wav',
+    'ogg': 'audio/ogg',
+    'flac': 'audio/flac'
+};
+
+/**
+ * A file part of a multipart/form-data body
+ */
+export interface MultipartFile {
+    name: string; // Form field name
+    filename: string;
+    contentType: string;
+    data: ArrayBuffer;
+}
+
+/**
+ * Build a multipart/form-data body for requestUrl
+ *
+ * requestUrl does not accept FormData, so the body is assembled by hand.
+ *
+ * @param fields Text fields, entries without a value are skipped
+ * @param file The file to upload
+ * @returns The request body and the matching Content-Type header
+ */
+export function buildMultipartBody(
+    fields: Record<string, string | undefined>,
+    file: MultipartFile
+): { body: ArrayBuffer; contentType: string } {
+    const boundary = '----WebKitFormBoundary' + Math.random().toString(16).substring(2);
+    const encoder = new TextEncoder();
+
+    let head = '';
+    for (const [name, value] of Object.entries(fields)) {
+        if (value === undefined || value === '') {
+            continue;
+        }
+        head += `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`;
+    }
+    head += `--${boundary}\r\nContent-Disposition: form-data; name="${file.name}"; filename="${file.filename}"\r\nContent-Type: ${file.contentType}\r\n\r\n`;
+
+    const headArray = encoder.encode(head);
+    const footArray = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+    const combined = new Uint8Array(headArray.length + file.data.byteLength + footArray.length);
+    combined.set(headArray, 0);
+    combined.set(new Uint8Array(file.data), headArray.length);
+    combined.set(footArray, headArray.length + file.data.byteLength);
+
+    return {
+        body: combined.buffer,
+        contentType: `multipart/form-data; boundary=${boundary}`
+    };
+}
+
+/**
+ * Request URL with timeout functionality using Promise.race
+ * @param options The request options for requestUrl
+ * @param timeoutMs Timeout in milliseconds
+ * @returns Promise that resolves with the response or rejects on timeout
+ */
+export async function requestUrlWithTimeout(options: RequestUrlParam, timeoutMs: number): Promise<RequestUrlResponse> {
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error(`Request timeout after ${timeoutMs}ms`)), timeoutMs);
+    });
+
+    return Promise.race([
+        requestUrl(options),
+        timeoutPromise
+    ]);
+}
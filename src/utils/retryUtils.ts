@@ -0,0 +1,58 @@
+/**
+ * Options for retrying an async operation
+ */
+export interface RetryOptions {
+    retries: number; // Attempts after the first one
+    baseDelayMs: number; // Delay before the first retry, doubled for every further retry
+    isRetryable?: (error: unknown) => boolean; // Errors for which retrying makes sense
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Run an async operation, retrying with exponential backoff on failure
+ *
+ * @param fn The operation to run
+ * @param options Retry count, delay and which errors to retry
+ * @returns The result of the first successful attempt
+ * @throws The last error if all attempts fail or the error is not retryable
+ */
+export async function retryWithBackoff<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+    const retries = Math.max(0, Math.floor(options.retries));
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            const retryable = options.isRetryable ? options.isRetryable(error) : true;
+            if (attempt >= retries || !retryable) {
+                throw error;
+            }
+
+            // Jitter keeps parallel chunk requests from retrying in lockstep
+            const delayMs = options.baseDelayMs * Math.pow(2, attempt) * (0.8 + Math.random() * 0.4);
+            options.onRetry?.(error, attempt + 1, delayMs);
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+    }
+}
+
+/**
+ * Check whether a request error is likely to go away on its own
+ *
+ * Network failures, timeouts, rate limits (429) and server errors (5xx) are
+ * transient; client errors such as 400 or 401 are not.
+ *
+ * @param error The error thrown by a request
+ * @returns True if the request should be retried
+ */
+export function isTransientRequestError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+
+    const status = message.match(/status (\d{3})/);
+    if (status) {
+        const code = Number(status[1]);
+        return code === 408 || code === 429 || code >= 500;
+    }
+
+    return /timeout|timed out|net::ERR_|ECONNREFUSED|ECONNRESET|ENOTFOUND|Failed to fetch|network/i.test(message);
+}
@@ -0,0 +1,45 @@
+import type { TemplateSection } from '../types';
+
+/**
+ * Get the template variable a section's response is stored under (snake_cased title)
+ */
+export function getSectionKey(section: TemplateSection): string {
+    return section.title.toLowerCase().replace(/\s+/g, '_');
+}
+
+/**
+ * Find the sections whose responses a section's prompt refers to, e.g. {{summary}}
+ */
+export function getSectionDependencies(section: TemplateSection, sections: TemplateSection[]): TemplateSection[] {
+    const variables = (section.prompt.match(/{{[^}]+}}/g) || []).map(variable => variable.slice(2, -2).trim());
+    return sections.filter(other => variables.includes(getSectionKey(other)));
+}
+
+/**
+ * Order sections so every section comes after the sections its prompt refers to
+ *
+ * @param sections The sections generated by the LLM
+ * @returns The sections in dependency order
+ * @throws Error naming the sections if they refer to each other in a cycle
+ */
+export function orderSectionsByDependencies(sections: TemplateSection[]): TemplateSection[] {
+    const ordered: TemplateSection[] = [];
+    const visiting: TemplateSection[] = [];
+
+    const visit = (section: TemplateSection) => {
+        if (ordered.includes(section)) {
+            return;
+        }
+        if (visiting.includes(section)) {
+            const cycle = [...visiting.slice(visiting.indexOf(section)), section].map(s => `"${s.title}"`).join(' → ');
+            throw new Error(`Template sections refer to each other in a cycle: ${cycle}`);
+        }
+        visiting.push(section);
+        getSectionDependencies(section, sections).forEach(visit);
+        visiting.pop();
+        ordered.push(section);
+    };
+
+    sections.forEach(visit);
+    return ordered;
+}
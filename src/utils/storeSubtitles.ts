@@ -0,0 +1,68 @@
+import { TFile, normalizePath } from 'obsidian';
+import type VoiceAIJournalPlugin from '../../main';
+import type { TranscriptionSegment } from '../ai/transcription/TranscriptionProvider';
+import { FileService } from '../services/FileService';
+import { buildStructuredPath } from './fileStoreUtils';
+import { formatSubtitles, segmentsToCues, SubtitleFormat } from './subtitleUtils';
+
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt'];
+
+/**
+ * Get the path of a subtitle file for a recording.
+ * Subtitles share the recording's file name so players pick them up automatically,
+ * and are placed next to the recording or in the transcripts folder.
+ * @param plugin VoiceAIJournalPlugin instance
+ * @param audioFile The recording
+ * @param format Subtitle format
+ * @param date Date used for the transcripts folder structure
+ * @returns The vault path of the subtitle file
+ */
+export function getSubtitlePath(plugin: VoiceAIJournalPlugin, audioFile: TFile, format: SubtitleFormat, date: Date): string {
+  let folder = audioFile.parent?.path || '';
+  if (plugin.settings.subtitleLocation === 'transcripts') {
+    const transcriptPath = buildStructuredPath(plugin, 'transcript', date, '', '');
+    folder = transcriptPath.substring(0, transcriptPath.lastIndexOf('/'));
+  }
+  return normalizePath(`${folder}/${audioFile.basename}.${format}`);
+}
+
+/**
+ * Store SRT and WebVTT subtitles built from the segments of a transcribed recording.
+ * Existing subtitle files are overwritten.
+ * @param plugin VoiceAIJournalPlugin instance
+ * @param audioFile The recording the segments belong to
+ * @param segments Segment timings from the transcription
+ * @param date Date used for the folder structure, defaults to the recording's creation time
+ * @returns The stored subtitle files
+ */
+export async function storeSubtitles(
+  plugin: VoiceAIJournalPlugin,
+  audioFile: TFile,
+  segments: TranscriptionSegment[],
+  date?: Date
+): Promise<TFile[]> {
+  const cues = segmentsToCues(segments);
+  if (cues.length === 0) {
+    throw new Error('The transcription contains no timed segments');
+  }
+
+  const targetDate = date || new Date(audioFile.stat.ctime);
+  const fileService = new FileService(plugin.app);
+  const files: TFile[] = [];
+
+  for (const format of SUBTITLE_FORMATS) {
+    const path = getSubtitlePath(plugin, audioFile, format, targetDate);
+    const content = formatSubtitles(cues, format);
+
+    await fileService.ensureFolderExists(path.substring(0, path.lastIndexOf('/')));
+    const existing = plugin.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await plugin.app.vault.modify(existing, content);
+      files.push(existing);
+    } else {
+      files.push(await plugin.app.vault.create(path, content));
+    }
+  }
+
+  return files;
+}
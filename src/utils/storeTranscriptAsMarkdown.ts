@@ -1,12 +1,35 @@
 // No need to import TFile directly as it's included in FileStoreResult
 import type VoiceAIJournalPlugin from '../../main';
+import type { TranscriptionSegment } from '../ai/transcription/TranscriptionProvider';
 import { storeFileWithStructureEnhanced, FileStoreResult } from './fileStoreUtils';
+import { buildTimestampedTranscript, buildSpeakerTranscript, getSpeakers } from './transcriptFormatter';
+import { formatCorrectionReport, CorrectionReportEntry } from './transcriptCorrections';
+import { highlightLowConfidence } from './transcriptConfidence';
+import { formatHallucinationReport, HallucinationFinding } from './hallucinationFilter';
+
+/**
+ * Optional details written to the transcript note
+ */
+export interface TranscriptNoteOptions {
+  segments?: TranscriptionSegment[]; // Segment timings from the transcription
+  audioFilePath?: string; // Saved recording the timestamps link to
+  corrections?: CorrectionReportEntry[]; // Correction rules that changed the transcript
+  hallucinations?: HallucinationFinding[]; // Passages removed as likely hallucinations
+  fileSuffix?: string; // Appended to the file name, e.g. 'en' for a translation
+}
 
 /**
  * Store a transcript as a markdown note in the selected transcripts folder.
+ * When timestamped transcripts are enabled and segments are available, each
+ * paragraph is prefixed with a timestamp linking into the saved recording.
+ * Diarized transcripts are written as labeled speaker turns, low-confidence
+ * words can be highlighted, and reports of applied correction rules and
+ * removed hallucinations are added at the end.
  * @param plugin VoiceAIJournalPlugin instance
  * @param transcriptText The transcript text to save
  * @param baseFileName The base file name (without extension)
+ * @param date Date used for the folder structure
+ * @param details Segment timings, the recording they refer to, applied corrections and removed hallucinations
  * @returns Object containing the TFile and the file path
  */
 
@@ -16,15 +39,41 @@ export async function storeTranscriptAsMarkdown(
   plugin: VoiceAIJournalPlugin,
   transcriptText: string,
   baseFileName: string,
-  date?: Date
+  date?: Date,
+  details?: TranscriptNoteOptions
 ): Promise<TranscriptStoreResult> {
   const targetDate = date || new Date();
+  let segments = details?.segments || [];
+  const timestamps = plugin.settings.timestampedTranscripts;
+
+  let content = transcriptText;
+  if (plugin.settings.highlightLowConfidence && segments.length > 0) {
+    segments = highlightLowConfidence(segments, plugin.settings.lowConfidenceThreshold);
+    content = segments.map(segment => segment.text).filter(text => text.length > 0).join(' ');
+  }
+
+  if (getSpeakers(segments).length > 0) {
+    content = buildSpeakerTranscript(segments, { markdown: true, timestamps, audioFilePath: details?.audioFilePath });
+  } else if (timestamps && segments.length > 0) {
+    content = buildTimestampedTranscript(segments, details?.audioFilePath);
+  }
+
+  const correctionReport = formatCorrectionReport(details?.corrections || []);
+  if (correctionReport) {
+    content += `\n\n${correctionReport}\n`;
+  }
+
+  const hallucinationReport = formatHallucinationReport(details?.hallucinations || []);
+  if (hallucinationReport) {
+    content += `\n\n${hallucinationReport}\n`;
+  }
+
   return await storeFileWithStructureEnhanced({
     plugin,
     type: 'transcript',
     baseFileName: '', // filename is generated in buildStructuredPath
-    content: transcriptText,
+    content,
     date: targetDate,
-    extension: '.md',
+    extension: details?.fileSuffix ? `_${details.fileSuffix}.md` : '.md',
   });
 }
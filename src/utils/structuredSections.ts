@@ -0,0 +1,151 @@
+import type { SectionProperty, TemplateSection } from '../types';
+
+/**
+ * A validated property value, as written to the frontmatter
+ */
+export type PropertyValue = string | number | boolean | string[];
+
+/**
+ * Frontmatter keys written by the plugin itself, structured sections cannot override them
+ */
+const RESERVED_PROPERTIES = ['tags', 'source', 'transcription_provider', 'languages'];
+
+/**
+ * Property names that can be written to YAML without quoting
+ */
+const PROPERTY_NAME_PATTERN = /^[A-Za-z][\w-]*$/;
+
+const TYPE_DESCRIPTIONS: Record<SectionProperty['type'], string> = {
+    number: 'number',
+    text: 'string',
+    list: 'array of strings',
+    boolean: 'true or false',
+    date: 'date as "YYYY-MM-DD"'
+};
+
+/**
+ * Check whether a property can be written to the frontmatter
+ */
+export function isValidPropertyName(name: string): boolean {
+    return PROPERTY_NAME_PATTERN.test(name) && !RESERVED_PROPERTIES.includes(name);
+}
+
+/**
+ * Build the instructions asking the LLM for a JSON object matching a section schema
+ *
+ * @param prompt The section prompt, may be empty
+ * @param schema The properties of the section
+ * @returns The prompt followed by the schema description
+ */
+export function buildPropertiesPrompt(prompt: string, schema: SectionProperty[]): string {
+    const properties = schema.filter(property => isValidPropertyName(property.name));
+    const fields = properties.map(property => {
+        const range = property.type === 'number' && (property.min !== undefined || property.max !== undefined)
+            ? ` from ${property.min ?? '-∞'} to ${property.max ?? '∞'}`
+            : '';
+        return `- "${property.name}" (${TYPE_DESCRIPTIONS[property.type]}${range}): ${property.description}`;
+    });
+
+    const instructions = 'Respond ONLY with a JSON object with the following properties and nothing else. '
+        + 'Use null for a property if the transcription does not mention it, DO NOT guess.\n'
+        + fields.join('\n');
+    return prompt.trim() ? `${prompt}\n\n${instructions}` : instructions;
+}
+
+/**
+ * Validate one value of the LLM response against its property type
+ *
+ * @returns The value to store, or undefined if it is missing or invalid
+ */
+function validateProperty(property: SectionProperty, value: unknown): PropertyValue | undefined {
+    if (value === null || value === undefined || value === '') {
+        return undefined;
+    }
+
+    switch (property.type) {
+        case 'number': {
+            const number = typeof value === 'number' ? value : parseFloat(String(value));
+            if (isNaN(number) || (property.min !== undefined && number < property.min) || (property.max !== undefined && number > property.max)) {
+                return undefined;
+            }
+            return number;
+        }
+        case 'boolean':
+            if (typeof value === 'boolean') {
+                return value;
+            }
+            return ['true', 'yes'].includes(String(value).toLowerCase()) ? true
+                : ['false', 'no'].includes(String(value).toLowerCase()) ? false
+                : undefined;
+        case 'list': {
+            const items = (Array.isArray(value) ? value : [value])
+                .filter(item => item !== null && item !== undefined && typeof item !== 'object')
+                .map(item => String(item).trim())
+                .filter(item => item.length > 0);
+            return items.length > 0 ? items : undefined;
+        }
+        case 'date': {
+            const match = String(value).match(/^\d{4}-\d{2}-\d{2}/);
+            return match && !isNaN(new Date(match[0]).getTime()) ? match[0] : undefined;
+        }
+        case 'text':
+            return typeof value === 'object' ? undefined : String(value).trim() || undefined;
+    }
+}
+
+/**
+ * Parse and validate the JSON response of a structured section
+ *
+ * The JSON object may be wrapped in a code block or surrounded by text. Values
+ * of the wrong type or outside their range are dropped, as are properties that
+ * are not part of the schema.
+ *
+ * @param section A section of type 'properties'
+ * @param response The LLM response
+ * @returns The valid properties, keyed by property name
+ * @throws Error if the response contains no JSON object
+ */
+export function parsePropertiesResponse(section: TemplateSection, response: string): Record<string, PropertyValue> {
+    const start = response.indexOf('{');
+    const end = response.lastIndexOf('}');
+    if (start < 0 || end < start) {
+        throw new Error('The response contains no JSON object');
+    }
+
+    const parsed: unknown = JSON.parse(response.substring(start, end + 1));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('The response is not a JSON object');
+    }
+
+    const values: Record<string, PropertyValue> = {};
+    for (const property of section.properties || []) {
+        if (!isValidPropertyName(property.name)) {
+            continue;
+        }
+        const raw = (parsed as Record<string, unknown>)[property.name];
+        const value = validateProperty(property, raw);
+        if (value !== undefined) {
+            values[property.name] = value;
+        } else if (raw !== null && raw !== undefined) {
+            console.warn(`[Voice AI Journal] Dropped invalid value for property "${property.name}" of section "${section.title}":`, raw);
+        }
+    }
+    return values;
+}
+
+/**
+ * Render properties as YAML frontmatter lines
+ *
+ * @param values Validated property values
+ * @returns One `key: value` entry per property, lists as indented items
+ */
+export function formatFrontmatterProperties(values: Record<string, PropertyValue>): string {
+    return Object.entries(values).map(([name, value]) => {
+        if (Array.isArray(value)) {
+            return `${name}:` + value.map(item => `\n  - ${JSON.stringify(item)}`).join('');
+        }
+        // Dates stay unquoted so they are read as dates, JSON strings are valid YAML strings
+        const isDate = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+        return `${name}: ${typeof value === 'string' && !isDate ? JSON.stringify(value) : String(value)}`;
+    }).join('\n');
+}
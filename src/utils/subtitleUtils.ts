@@ -0,0 +1,158 @@
+import type { TranscriptionSegment } from '../ai/transcription/TranscriptionProvider';
+
+/**
+ * A timed cue of a subtitle file
+ */
+export interface SubtitleCue {
+    start: number; // Seconds
+    end: number; // Seconds
+    text: string;
+    speaker?: string;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+/**
+ * Parse a subtitle timestamp (00:01:02,345 / 00:01:02.345 / 01:02.345) into seconds
+ */
+function parseSubtitleTimestamp(value: string): number {
+    const parts = value.trim().replace(',', '.').split(':').map(Number);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Parse SRT or WebVTT content into cues
+ * @param content Subtitle file content
+ * @returns Cues in file order
+ */
+export function parseSubtitles(content: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    const blocks = content.replace(/\r\n/g, '\n').split(/\n{2,}/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n').filter(line => line.trim() !== '');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex < 0) {
+            continue; // WEBVTT header, NOTE or STYLE blocks
+        }
+
+        const [start, end] = lines[timingIndex].split('-->');
+        const text = lines.slice(timingIndex + 1).join(' ').trim();
+        if (text) {
+            cues.push({
+                start: parseSubtitleTimestamp(start),
+                // VTT cue settings may follow the end time
+                end: parseSubtitleTimestamp(end.trim().split(/\s+/)[0]),
+                text
+            });
+        }
+    }
+
+    return cues;
+}
+
+/**
+ * Parse the TSV output of Whisper (start and end in milliseconds) into cues
+ * @param content TSV content with a `start	end	text` header
+ * @returns Cues in file order
+ */
+export function parseWhisperTsv(content: string): SubtitleCue[] {
+    return content
+        .replace(/\r\n/g, '\n')
+        .split('\n')
+        .slice(1)
+        .map(line => line.split('\t'))
+        .filter(columns => columns.length >= 3 && columns[2].trim() !== '')
+        .map(columns => ({
+            start: Number(columns[0]) / 1000,
+            end: Number(columns[1]) / 1000,
+            text: columns.slice(2).join('\t').trim()
+        }));
+}
+
+/**
+ * Turn transcript segments into subtitle cues
+ *
+ * Segments longer than two subtitle lines are split at word boundaries when
+ * word timings are available, so each cue stays readable on screen.
+ *
+ * @param segments Timed transcript segments
+ * @param maxChars Longest text of a single cue
+ * @returns Cues in recording order
+ */
+export function segmentsToCues(segments: TranscriptionSegment[], maxChars = 84): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+
+    for (const segment of segments) {
+        const text = segment.text.trim();
+        if (!text) {
+            continue;
+        }
+
+        const words = segment.words || [];
+        if (text.length <= maxChars || words.length === 0) {
+            cues.push({ start: segment.start, end: segment.end, text, speaker: segment.speaker });
+            continue;
+        }
+
+        let current: typeof words = [];
+        const flush = () => {
+            if (current.length > 0) {
+                cues.push({
+                    start: current[0].start,
+                    end: current[current.length - 1].end,
+                    text: current.map(word => word.word).join(' '),
+                    speaker: segment.speaker
+                });
+                current = [];
+            }
+        };
+        let length = 0;
+        for (const word of words) {
+            if (current.length > 0 && length + 1 + word.word.length > maxChars) {
+                flush();
+                length = 0;
+            }
+            length += (current.length > 0 ? 1 : 0) + word.word.length;
+            current.push(word);
+        }
+        flush();
+    }
+
+    return cues;
+}
+
+/**
+ * Format seconds as a subtitle timestamp (hh:mm:ss,mmm for SRT, hh:mm:ss.mmm for WebVTT)
+ */
+function formatSubtitleTimestamp(seconds: number, format: SubtitleFormat): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const separator = format === 'srt' ? ',' : '.';
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+/**
+ * Build an SRT or WebVTT file from cues
+ *
+ * Speakers are written as a "Speaker: " prefix in SRT and as voice tags in WebVTT.
+ *
+ * @param cues Cues in recording order
+ * @param format Subtitle format to build
+ * @returns The subtitle file content
+ */
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+    const blocks = cues.map((cue, index) => {
+        const timing = `${formatSubtitleTimestamp(cue.start, format)} --> ${formatSubtitleTimestamp(Math.max(cue.end, cue.start), format)}`;
+        if (format === 'srt') {
+            return `${index + 1}\n${timing}\n${cue.speaker ? `${cue.speaker}: ` : ''}${cue.text}`;
+        }
+        return `${timing}\n${cue.speaker ? `<v ${cue.speaker}>` : ''}${cue.text}`;
+    });
+
+    const body = blocks.join('\n\n') + '\n';
+    return format === 'vtt' ? `WEBVTT\n\n${body}` : body;
+}
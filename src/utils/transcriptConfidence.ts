@@ -0,0 +1,94 @@
+import type { TranscriptionResult, TranscriptionSegment } from '../ai/transcription/TranscriptionProvider';
+import { buildSpeakerTranscript, getSpeakers } from './transcriptFormatter';
+
+/**
+ * Estimate how confident the backend was about a segment (0..1)
+ *
+ * Uses the mean word probability when word timings are available, otherwise the
+ * token probability derived from `avg_logprob`.
+ *
+ * @param segment A transcript segment
+ * @returns The confidence, or undefined if the backend reported none
+ */
+export function getSegmentConfidence(segment: TranscriptionSegment): number | undefined {
+    const probabilities = (segment.words || [])
+        .map(word => word.probability)
+        .filter((probability): probability is number => typeof probability === 'number');
+    if (probabilities.length > 0) {
+        return probabilities.reduce((total, probability) => total + probability, 0) / probabilities.length;
+    }
+    if (typeof segment.avgLogprob === 'number') {
+        return Math.exp(segment.avgLogprob);
+    }
+    return undefined;
+}
+
+/**
+ * Check whether a segment is unreliable: low confidence, or most likely no speech at all
+ */
+function isLowConfidence(segment: TranscriptionSegment, threshold: number): boolean {
+    const confidence = getSegmentConfidence(segment);
+    return (confidence !== undefined && confidence < threshold)
+        || (segment.noSpeechProb !== undefined && segment.noSpeechProb > 1 - threshold);
+}
+
+/**
+ * Mark low-confidence passages of the segments with ==highlights==
+ *
+ * With word probabilities only the uncertain words are marked, otherwise the
+ * whole segment is. Words are looked up in the segment text, so words changed by
+ * correction rules are left unmarked instead of reverting the correction.
+ *
+ * @param segments Timed transcript segments
+ * @param threshold Words and segments below this confidence (0..1) are marked
+ * @returns Segments with highlighted text
+ */
+export function highlightLowConfidence(segments: TranscriptionSegment[], threshold: number): TranscriptionSegment[] {
+    return segments.map(segment => {
+        const words = (segment.words || []).filter(word => typeof word.probability === 'number');
+        if (words.length === 0) {
+            return isLowConfidence(segment, threshold) && segment.text
+                ? { ...segment, text: `==${segment.text}==` }
+                : segment;
+        }
+
+        let text = segment.text;
+        let position = 0;
+        for (const word of words) {
+            const start = text.indexOf(word.word, position);
+            if (start < 0 || word.word.length === 0) {
+                continue;
+            }
+            const end = start + word.word.length;
+            if ((word.probability as number) < threshold) {
+                text = `${text.slice(0, start)}==${word.word}==${text.slice(end)}`;
+                position = end + 4;
+            } else {
+                position = end;
+            }
+        }
+
+        // Join neighbouring marked words into one highlight
+        return { ...segment, text: text.replace(/==(\s+)==/g, '$1') };
+    });
+}
+
+/**
+ * Get the transcript text without low-confidence segments, for LLM analysis
+ *
+ * @param result The transcription result
+ * @param minConfidence Segments below this confidence (0..1) are left out
+ * @returns The filtered transcript, or the unchanged text if no segment was left out
+ */
+export function getConfidentText(result: TranscriptionResult, minConfidence: number): string {
+    const segments = result.segments || [];
+    const confident = segments.filter(segment => !isLowConfidence(segment, minConfidence));
+    if (confident.length === segments.length || confident.length === 0) {
+        return result.text;
+    }
+
+    console.log(`[Voice AI Journal] Leaving ${segments.length - confident.length} low-confidence segments out of the analysis`);
+    return getSpeakers(confident).length > 0
+        ? buildSpeakerTranscript(confident)
+        : confident.map(segment => segment.text).join(' ');
+}
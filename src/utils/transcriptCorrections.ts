@@ -0,0 +1,173 @@
+import { TFile, normalizePath } from 'obsidian';
+import type VoiceAIJournalPlugin from '../../main';
+import type { TranscriptionResult } from '../ai/transcription/TranscriptionProvider';
+
+/**
+ * A find/replace rule applied to transcripts after ASR
+ */
+export interface CorrectionRule {
+    find: string; // Text or regular expression to find
+    replace: string; // Replacement, regex rules may use $1 etc.
+    regex: boolean; // Treat `find` as a regular expression
+    wholeWord: boolean; // Only match complete words
+    caseSensitive: boolean;
+}
+
+/**
+ * How often a correction rule changed the transcript
+ */
+export interface CorrectionReportEntry {
+    find: string;
+    replace: string;
+    count: number;
+}
+
+/**
+ * Build the regular expression for a rule
+ * @returns The expression, or null if the rule is empty or an invalid regex
+ */
+function buildRulePattern(rule: CorrectionRule): RegExp | null {
+    if (!rule.find) {
+        return null;
+    }
+
+    let source = rule.regex ? rule.find : rule.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (rule.wholeWord) {
+        // Unicode-aware word boundaries, \b does not work for umlauts
+        source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+    }
+
+    try {
+        return new RegExp(source, rule.caseSensitive ? 'gu' : 'giu');
+    } catch (error) {
+        console.warn(`[VoiceAIJournal] Skipping invalid correction rule "${rule.find}":`, error);
+        return null;
+    }
+}
+
+/**
+ * Apply correction rules to a text
+ * @param text The text to correct
+ * @param rules Rules, applied in order
+ * @returns The corrected text and the number of replacements per rule
+ */
+export function applyCorrections(text: string, rules: CorrectionRule[]): { text: string; counts: number[] } {
+    const counts = rules.map(() => 0);
+
+    rules.forEach((rule, index) => {
+        const pattern = buildRulePattern(rule);
+        if (!pattern) {
+            return;
+        }
+        counts[index] = (text.match(pattern) || []).length;
+        if (counts[index] > 0) {
+            // Regex rules may reference groups ($1), plain replacements are inserted literally
+            text = rule.regex
+                ? text.replace(pattern, rule.replace)
+                : text.replace(pattern, () => rule.replace);
+        }
+    });
+
+    return { text, counts };
+}
+
+/**
+ * Apply correction rules to a transcription result, including its segments
+ * @param result The transcription result
+ * @param rules Rules, applied in order
+ * @returns The corrected result with a report of the rules that fired
+ */
+export function correctTranscription(result: TranscriptionResult, rules: CorrectionRule[]): TranscriptionResult {
+    if (rules.length === 0) {
+        return result;
+    }
+
+    const corrected = applyCorrections(result.text, rules);
+    const segments = result.segments?.map(segment => ({
+        ...segment,
+        text: applyCorrections(segment.text, rules).text
+    }));
+
+    const corrections: CorrectionReportEntry[] = rules
+        .map((rule, index) => ({ find: rule.find, replace: rule.replace, count: corrected.counts[index] }))
+        .filter(entry => entry.count > 0);
+
+    if (corrections.length > 0) {
+        console.log(`[VoiceAIJournal] Applied ${corrections.length} transcript correction rules`);
+    }
+
+    return { ...result, text: corrected.text, segments, corrections };
+}
+
+/**
+ * Parse correction rules from a vault note
+ *
+ * Every line of the form `find => replace` is a rule (list markers are allowed).
+ * Plain rules match whole words, case-insensitively. A find pattern wrapped in
+ * slashes (`/colou?r/ => color`) is a case-sensitive regular expression; add an
+ * `i` after the closing slash to ignore case.
+ *
+ * @param content Note content
+ * @returns The rules in note order
+ */
+export function parseCorrectionRules(content: string): CorrectionRule[] {
+    const rules: CorrectionRule[] = [];
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/^\s*(?:[-*+]\s+|\d+[.)]\s+)/, '');
+        const separator = line.indexOf('=>');
+        if (separator < 0) {
+            continue;
+        }
+
+        const find = line.slice(0, separator).trim();
+        const replace = line.slice(separator + 2).trim();
+        const regexMatch = find.match(/^\/(.+)\/(i?)$/);
+
+        if (regexMatch) {
+            rules.push({ find: regexMatch[1], replace, regex: true, wholeWord: false, caseSensitive: regexMatch[2] !== 'i' });
+        } else if (find) {
+            rules.push({ find, replace, regex: false, wholeWord: true, caseSensitive: false });
+        }
+    }
+
+    return rules;
+}
+
+/**
+ * Load the correction rules from the settings and the configured rules note
+ * @param plugin VoiceAIJournalPlugin instance
+ * @returns Settings rules followed by the rules from the note
+ */
+export async function loadCorrectionRules(plugin: VoiceAIJournalPlugin): Promise<CorrectionRule[]> {
+    const rules = [...(plugin.settings.correctionRules || [])];
+
+    const notePath = plugin.settings.correctionRulesNote;
+    if (notePath) {
+        let path = normalizePath(notePath);
+        if (!path.endsWith('.md')) {
+            path += '.md';
+        }
+        const file = plugin.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+            rules.push(...parseCorrectionRules(await plugin.app.vault.cachedRead(file)));
+        } else {
+            console.warn(`[VoiceAIJournal] Correction rules note not found: ${path}`);
+        }
+    }
+
+    return rules;
+}
+
+/**
+ * Render the correction report for the transcript note
+ * @param corrections Rules that changed the transcript
+ * @returns A collapsed callout listing the rules, or an empty string
+ */
+export function formatCorrectionReport(corrections: CorrectionReportEntry[]): string {
+    if (corrections.length === 0) {
+        return '';
+    }
+    const lines = corrections.map(entry => `> - \`${entry.find}\` → ${entry.replace} (${entry.count}×)`);
+    return `> [!info]- Transcript corrections\n${lines.join('\n')}`;
+}
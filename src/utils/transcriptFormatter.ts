@@ -0,0 +1,180 @@
+import type { TranscriptionSegment } from '../ai/transcription/TranscriptionProvider';
+
+/**
+ * Format seconds as a timestamp (mm:ss, or h:mm:ss for long recordings)
+ * @param seconds Position in the recording
+ * @returns The formatted timestamp
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${pad(minutes)}:${pad(secs)}`;
+}
+
+/**
+ * Group segments into paragraphs, starting a new one after a pause or once a paragraph gets long
+ * @param segments Timed transcript segments
+ * @param pauseSeconds Gap between segments that starts a new paragraph
+ * @param maxParagraphSeconds Longest span of a single paragraph
+ * @returns Paragraphs of consecutive segments
+ */
+export function groupSegmentsIntoParagraphs(
+  segments: TranscriptionSegment[],
+  pauseSeconds = 2,
+  maxParagraphSeconds = 60
+): TranscriptionSegment[][] {
+  const paragraphs: TranscriptionSegment[][] = [];
+  let current: TranscriptionSegment[] = [];
+
+  for (const segment of segments) {
+    if (!segment.text) {
+      continue;
+    }
+    const last = current[current.length - 1];
+    if (last && (segment.start - last.end >= pauseSeconds || segment.end - current[0].start > maxParagraphSeconds)) {
+      paragraphs.push(current);
+      current = [];
+    }
+    current.push(segment);
+  }
+  if (current.length > 0) {
+    paragraphs.push(current);
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Build a transcript where every paragraph starts with its timestamp
+ *
+ * If the path of the saved recording is known, the timestamp links to that
+ * position in the audio file (`[[file#t=seconds|mm:ss]]`).
+ *
+ * @param segments Timed transcript segments
+ * @param audioFilePath Vault path of the saved recording
+ * @returns Markdown transcript
+ */
+export function buildTimestampedTranscript(segments: TranscriptionSegment[], audioFilePath?: string): string {
+  const audioLinkPath = audioFilePath?.replace(/^\//, '');
+
+  return groupSegmentsIntoParagraphs(segments)
+    .map(paragraph => {
+      const start = paragraph[0].start;
+      const timestamp = formatTimestamp(start);
+      const label = audioLinkPath
+        ? `[[${audioLinkPath}#t=${Math.floor(start)}|${timestamp}]]`
+        : `**${timestamp}**`;
+      return `${label} ${paragraph.map(segment => segment.text).join(' ')}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * List the speaker labels of diarized segments in order of first appearance
+ * @param segments Timed transcript segments
+ * @returns Unique speaker labels, empty if the transcript is not diarized
+ */
+export function getSpeakers(segments: TranscriptionSegment[]): string[] {
+  const speakers: string[] = [];
+  for (const segment of segments) {
+    if (segment.speaker && !speakers.includes(segment.speaker)) {
+      speakers.push(segment.speaker);
+    }
+  }
+  return speakers;
+}
+
+/**
+ * Label a speaker of one chunk of a long recording
+ *
+ * Diarization runs per chunk, so the same backend label may refer to
+ * different people in different chunks.
+ * @param speaker Label returned by the ASR backend
+ * @param part 1-based number of the chunk
+ */
+export function getChunkSpeakerLabel(speaker: string, part: number): string {
+  return `${speaker} (part ${part})`;
+}
+
+/**
+ * Get the backend label of a speaker, without the chunk suffix
+ * @param label Speaker label, possibly from getChunkSpeakerLabel
+ */
+export function getBaseSpeakerLabel(label: string): string {
+  return label.replace(/ \(part \d+\)$/, '');
+}
+
+/**
+ * Replace speaker labels with the names chosen by the user
+ * @param segments Diarized segments
+ * @param speakerNames Mapping from speaker label to name, unmapped labels are kept
+ * @returns Segments with renamed speakers
+ */
+export function applySpeakerNames(segments: TranscriptionSegment[], speakerNames: Record<string, string>): TranscriptionSegment[] {
+  return segments.map(segment => {
+    const name = segment.speaker ? speakerNames[segment.speaker]?.trim() : undefined;
+    return name ? { ...segment, speaker: name } : segment;
+  });
+}
+
+/**
+ * Group consecutive segments of the same speaker into turns
+ * @param segments Diarized segments
+ * @returns Turns of consecutive segments
+ */
+export function groupSegmentsIntoTurns(segments: TranscriptionSegment[]): TranscriptionSegment[][] {
+  const turns: TranscriptionSegment[][] = [];
+  for (const segment of segments) {
+    if (!segment.text) {
+      continue;
+    }
+    const current = turns[turns.length - 1];
+    if (current && current[0].speaker === segment.speaker) {
+      current.push(segment);
+    } else {
+      turns.push([segment]);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Build a transcript of labeled speaker turns
+ *
+ * Without options the result is plain `Speaker: text` lines, which is what the
+ * template sections receive. For the transcript note the speaker is bold and the
+ * turn can be prefixed with a timestamp linking into the recording.
+ *
+ * @param segments Diarized segments
+ * @param options Formatting options for the transcript note
+ * @returns Transcript with one paragraph per speaker turn
+ */
+export function buildSpeakerTranscript(
+  segments: TranscriptionSegment[],
+  options: { markdown?: boolean; timestamps?: boolean; audioFilePath?: string } = {}
+): string {
+  const audioLinkPath = options.audioFilePath?.replace(/^\//, '');
+
+  return groupSegmentsIntoTurns(segments)
+    .map(turn => {
+      const speaker = turn[0].speaker || 'Unknown speaker';
+      const text = turn.map(segment => segment.text).join(' ');
+      if (!options.markdown) {
+        return `${speaker}: ${text}`;
+      }
+
+      let prefix = '';
+      if (options.timestamps) {
+        const start = turn[0].start;
+        const timestamp = formatTimestamp(start);
+        prefix = audioLinkPath
+          ? `[[${audioLinkPath}#t=${Math.floor(start)}|${timestamp}]] `
+          : `${timestamp} `;
+      }
+      return `${prefix}**${speaker}:** ${text}`;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,81 @@
+/**
+ * Utilities for joining transcripts of overlapping audio chunks
+ */
+
+/**
+ * Normalize a word for overlap comparison (case and punctuation insensitive)
+ */
+export function normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Find how many leading words of `next` repeat the trailing words of `previous`
+ *
+ * @param previous Words of the earlier transcript
+ * @param next Words of the following transcript
+ * @param maxOverlapWords Longest overlap to look for
+ * @param minOverlapWords Shorter matches are ignored as coincidental
+ * @returns Number of words to drop from the start of `next`
+ */
+export function findWordOverlap(
+    previous: string[],
+    next: string[],
+    maxOverlapWords = 60,
+    minOverlapWords = 2
+): number {
+    const prevNorm = previous.map(normalizeWord);
+    const nextNorm = next.map(normalizeWord);
+    const maxLength = Math.min(maxOverlapWords, prevNorm.length, nextNorm.length);
+
+    // Prefer the longest overlap
+    for (let length = maxLength; length >= minOverlapWords; length--) {
+        let matches = true;
+        for (let i = 0; i < length; i++) {
+            if (prevNorm[prevNorm.length - length + i] !== nextNorm[i]) {
+                matches = false;
+                break;
+            }
+        }
+        if (matches) {
+            return length;
+        }
+    }
+
+    return 0;
+}
+
+/**
+ * Upper bound of words spoken per second, limits how many words an audio overlap can repeat
+ */
+const MAX_WORDS_PER_SECOND = 5;
+
+/**
+ * Join chunk transcripts, removing text duplicated by the audio overlap
+ *
+ * Only the words that fit into the overlap of two neighbouring chunks are
+ * compared, so chunks without overlap keep words that are genuinely repeated.
+ *
+ * @param transcripts Transcripts in chunk order
+ * @param overlapSeconds Audio each chunk shares with the chunk before it
+ * @returns The stitched transcript
+ */
+export function stitchTranscripts(transcripts: string[], overlapSeconds: number[]): string {
+    let words: string[] = [];
+    let previousWords: string[] = [];
+
+    transcripts.forEach((transcript, index) => {
+        const chunkWords = transcript.trim().split(/\s+/).filter(word => word.length > 0);
+
+        // A word cut at either edge of the overlap may still appear in both chunks
+        const maxOverlapWords = overlapSeconds[index] > 0 ? Math.ceil(overlapSeconds[index] * MAX_WORDS_PER_SECOND) + 1 : 0;
+        const overlap = maxOverlapWords > 0 ? findWordOverlap(previousWords, chunkWords, maxOverlapWords) : 0;
+        if (overlap > 0) {
+            console.debug(`[Voice AI Journal] Removed ${overlap} duplicated words at chunk boundary`);
+        }
+        words = words.concat(chunkWords.slice(overlap));
+        previousWords = chunkWords;
+    });
+
+    return words.join(' ');
+}
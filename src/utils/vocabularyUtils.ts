@@ -0,0 +1,74 @@
+import { TFile, normalizePath } from 'obsidian';
+import type VoiceAIJournalPlugin from '../../main';
+
+/**
+ * Whisper only uses the last 224 tokens of a prompt, longer vocabularies are cut off
+ */
+const MAX_VOCABULARY_PROMPT_LENGTH = 800;
+
+/**
+ * Load vocabulary terms (names, products, jargon) from a vault note
+ *
+ * A `vocabulary` frontmatter list takes precedence. Otherwise every line of the
+ * note body is a term; list markers are removed, headings are skipped and lines
+ * may contain several comma-separated terms.
+ *
+ * @param plugin VoiceAIJournalPlugin instance
+ * @param notePath Vault path of the vocabulary note (the .md extension is optional)
+ * @returns Unique terms in note order
+ */
+export async function loadVocabulary(plugin: VoiceAIJournalPlugin, notePath: string): Promise<string[]> {
+    let path = normalizePath(notePath);
+    if (!path.endsWith('.md')) {
+        path += '.md';
+    }
+
+    const file = plugin.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+        throw new Error(`Vocabulary note not found: ${path}`);
+    }
+
+    let lines: string[];
+    const frontmatterTerms = plugin.app.metadataCache.getFileCache(file)?.frontmatter?.vocabulary;
+    if (Array.isArray(frontmatterTerms)) {
+        lines = frontmatterTerms.map(term => String(term));
+    } else if (typeof frontmatterTerms === 'string') {
+        lines = [frontmatterTerms];
+    } else {
+        const content = await plugin.app.vault.cachedRead(file);
+        lines = content
+            .replace(/^---\n[\s\S]*?\n---\n?/, '') // Frontmatter without a vocabulary list
+            .split('\n')
+            .filter(line => !line.trim().startsWith('#'))
+            .map(line => line.replace(/^\s*(?:[-*+]\s+(?:\[.\]\s+)?|\d+[.)]\s+)/, ''));
+    }
+
+    const terms: string[] = [];
+    for (const line of lines) {
+        for (const term of line.split(',')) {
+            const cleaned = term.trim();
+            if (cleaned && !terms.includes(cleaned)) {
+                terms.push(cleaned);
+            }
+        }
+    }
+    return terms;
+}
+
+/**
+ * Build the prompt sent to the transcription backend from vocabulary terms
+ * @param terms Vocabulary terms
+ * @returns Comma-separated terms, limited to what Whisper models actually use
+ */
+export function buildVocabularyPrompt(terms: string[]): string | undefined {
+    let prompt = '';
+    for (const term of terms) {
+        const next = prompt ? `${prompt}, ${term}` : term;
+        if (next.length > MAX_VOCABULARY_PROMPT_LENGTH) {
+            console.warn(`[VoiceAIJournal] Vocabulary prompt truncated after ${prompt.split(', ').length} terms`);
+            break;
+        }
+        prompt = next;
+    }
+    return prompt || undefined;
+}
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { mapWithConcurrency, createConcurrencyLimiter } from '../src/utils/concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('results keep the input order and the limit is respected', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms, index) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(ms);
+        running--;
+        return index;
+    });
+    assert.deepStrictEqual(results, [0, 1, 2, 3]);
+    assert.strictEqual(maxRunning, 2);
+});
+
+test('no new items start after an operation rejected', async () => {
+    const started: number[] = [];
+    await assert.rejects(
+        mapWithConcurrency([0, 1, 2, 3, 4, 5], 2, async (item) => {
+            started.push(item);
+            if (item === 0) {
+                await delay(5);
+                throw new Error('chunk failed');
+            }
+            await delay(20);
+            return item;
+        }),
+        /chunk failed/
+    );
+
+    // Let the operation already running finish and give the workers a chance to continue
+    await delay(50);
+    assert.deepStrictEqual(started, [0, 1]);
+});
+
+test('the limiter runs submitted operations in order within the limit', async () => {
+    const limit = createConcurrencyLimiter(1);
+    const order: string[] = [];
+    await Promise.all(['a', 'b', 'c'].map(name => limit(async () => {
+        order.push(`start ${name}`);
+        await delay(5);
+        order.push(`end ${name}`);
+    })));
+    assert.deepStrictEqual(order, ['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { collapseRepetitions, removeHallucinations, formatHallucinationReport } from '../src/utils/hallucinationFilter';
+
+const options = { noSpeechThreshold: 0.6 };
+
+test('phrases looping three or more times are collapsed', () => {
+    const result = collapseRepetitions('I went home. I went home. I went home. And slept');
+    assert.strictEqual(result.text, 'I went home. And slept');
+    assert.deepStrictEqual(result.repeated, ['I went home. (3×)']);
+});
+
+test('single words need four repetitions, emphasis is kept', () => {
+    assert.strictEqual(collapseRepetitions('it was very very very good').text, 'it was very very very good');
+    assert.strictEqual(collapseRepetitions('no no no no no').text, 'no');
+});
+
+test('known subtitle phrases are removed from plain text', () => {
+    const result = removeHallucinations({ text: 'Today was fine. Thanks for watching!' }, options);
+    assert.strictEqual(result.text, 'Today was fine.');
+    assert.deepStrictEqual(result.hallucinations, [{ text: 'Thanks for watching!', reason: 'phrase' }]);
+});
+
+test('results without hallucinations are returned unchanged', () => {
+    const input = { text: 'Nothing unusual here.', segments: [{ text: 'Nothing unusual here.', start: 0, end: 2 }] };
+    assert.strictEqual(removeHallucinations(input, options), input);
+});
+
+test('segments are dropped for no speech, known phrases and repetition', () => {
+    const result = removeHallucinations({
+        text: '',
+        segments: [
+            { text: 'We talked about the plan.', start: 0, end: 2 },
+            { text: 'We talked about the plan.', start: 2, end: 4 },
+            { text: 'Yes.', start: 4, end: 5 },
+            { text: 'Yes.', start: 5, end: 6 },
+            { text: 'Untertitel im Auftrag des ZDF, 2017', start: 6, end: 8 },
+            { text: 'Hmm', start: 8, end: 9, noSpeechProb: 0.9, avgLogprob: -1.5 },
+            { text: 'Okay', start: 9, end: 10, noSpeechProb: 0.9, avgLogprob: -0.2 }
+        ]
+    }, options);
+
+    assert.strictEqual(result.text, 'We talked about the plan. Yes. Yes. Okay');
+    assert.deepStrictEqual(result.hallucinations?.map(finding => [finding.reason, finding.start]), [
+        ['repetition', 2],
+        ['phrase', 6],
+        ['noSpeech', 8]
+    ]);
+});
+
+test('the report lists removed passages with their position', () => {
+    const report = formatHallucinationReport([{ text: ' Thanks for watching ', reason: 'phrase', start: 75 }, { text: 'la (4×)', reason: 'repetition' }]);
+    assert.strictEqual(report, '> [!warning]- Removed likely hallucinations\n> - 01:15 "Thanks for watching" (known phrase)\n> - "la (4×)" (repetition)');
+    assert.strictEqual(formatHallucinationReport([]), '');
+});
@@ -0,0 +1,43 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import process from "process";
+
+// Bundles every tests/*.test.ts file and runs the bundles with the built-in Node test runner.
+// The obsidian package only ships type definitions, so importing it resolves to an empty module;
+// tests only cover code that does not call the Obsidian API.
+
+const testDir = new URL(".", import.meta.url).pathname;
+const testFiles = readdirSync(testDir).filter((file) => file.endsWith(".test.ts"));
+const outDir = mkdtempSync(join(tmpdir(), "voice-ai-journal-tests-"));
+
+const obsidianStub = {
+	name: "obsidian-stub",
+	setup(build) {
+		build.onResolve({ filter: /^obsidian$/ }, () => ({ path: "obsidian", namespace: "obsidian-stub" }));
+		build.onLoad({ filter: /.*/, namespace: "obsidian-stub" }, () => ({ contents: "module.exports = {};", loader: "js" }));
+	},
+};
+
+let status = 1;
+try {
+	await esbuild.build({
+		entryPoints: testFiles.map((file) => join(testDir, file)),
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node16",
+		outdir: outDir,
+		outExtension: { ".js": ".cjs" },
+		plugins: [obsidianStub],
+		logLevel: "warning",
+	});
+
+	const bundles = readdirSync(outDir).map((file) => join(outDir, file));
+	status = spawnSync(process.execPath, ["--test", ...bundles], { stdio: "inherit" }).status ?? 1;
+} finally {
+	rmSync(outDir, { recursive: true, force: true });
+}
+process.exit(status);
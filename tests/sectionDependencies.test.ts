@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { getSectionDependencies, getSectionKey, orderSectionsByDependencies } from '../src/utils/sectionDependencies';
+import type { TemplateSection } from '../src/types';
+
+const section = (title: string, prompt = ''): TemplateSection => ({ title, prompt, context: '{{response}}', optional: false });
+
+test('section keys are the snake_cased title', () => {
+    assert.strictEqual(getSectionKey(section('Action Items')), 'action_items');
+});
+
+test('dependencies are the sections a prompt refers to', () => {
+    const summary = section('Summary');
+    const mood = section('Mood');
+    const actions = section('Action Items', 'Based on {{ summary }} and {{transcription}}');
+    assert.deepStrictEqual(getSectionDependencies(actions, [summary, mood, actions]), [summary]);
+});
+
+test('sections are ordered after their dependencies, keeping template order otherwise', () => {
+    const reflection = section('Reflection', 'Reflect on {{summary}} and {{action_items}}');
+    const actions = section('Action Items', 'List tasks from {{summary}}');
+    const summary = section('Summary', 'Summarize {{transcription}}');
+    const mood = section('Mood');
+
+    const ordered = orderSectionsByDependencies([reflection, actions, summary, mood]);
+    assert.deepStrictEqual(ordered.map(s => s.title), ['Summary', 'Action Items', 'Reflection', 'Mood']);
+});
+
+test('sections referring to each other in a cycle throw naming the cycle', () => {
+    const first = section('First', 'Use {{second}}');
+    const second = section('Second', 'Use {{third}}');
+    const third = section('Third', 'Use {{second}}');
+
+    assert.throws(
+        () => orderSectionsByDependencies([first, second, third]),
+        { message: 'Template sections refer to each other in a cycle: "Second" → "Third" → "Second"' }
+    );
+});
+
+test('a section referring to itself is a cycle', () => {
+    assert.throws(() => orderSectionsByDependencies([section('Loop', 'Repeat {{loop}}')]), /cycle: "Loop" → "Loop"/);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { isValidPropertyName, parsePropertiesResponse, formatFrontmatterProperties } from '../src/utils/structuredSections';
+import type { TemplateSection } from '../src/types';
+
+test('property names must start with a letter and not be reserved', () => {
+    assert.strictEqual(isValidPropertyName('mood_score'), true);
+    assert.strictEqual(isValidPropertyName('energy-level'), true);
+    assert.strictEqual(isValidPropertyName('_private'), false);
+    assert.strictEqual(isValidPropertyName('1st'), false);
+    assert.strictEqual(isValidPropertyName('has space'), false);
+    assert.strictEqual(isValidPropertyName('tags'), false);
+});
+
+test('responses are validated against the schema', () => {
+    const section: TemplateSection = {
+        title: 'Metrics',
+        context: '',
+        optional: false,
+        prompt: '',
+        type: 'properties',
+        properties: [
+            { name: 'mood', type: 'number', description: 'Mood', min: 1, max: 10 },
+            { name: 'people', type: 'list', description: 'People' },
+            { name: 'exercised', type: 'boolean', description: 'Exercise' },
+            { name: 'due', type: 'date', description: 'Due date' },
+            { name: '_hidden', type: 'text', description: 'Invalid name' }
+        ]
+    };
+    const values = parsePropertiesResponse(section, 'Sure:\n```json\n{"mood": 12, "people": ["Anna", " "], "exercised": "yes", "due": "2026-03-01T10:00", "_hidden": "x"}\n```');
+    assert.deepStrictEqual(values, { people: ['Anna'], exercised: true, due: '2026-03-01' });
+    assert.throws(() => parsePropertiesResponse(section, 'no json here'), /no JSON object/);
+});
+
+test('properties are formatted as frontmatter lines', () => {
+    assert.strictEqual(
+        formatFrontmatterProperties({ mood: 7, due: '2026-03-01', note: 'a: b', people: ['Anna'] }),
+        'mood: 7\ndue: 2026-03-01\nnote: "a: b"\npeople:\n  - "Anna"'
+    );
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { parseSubtitles, parseWhisperTsv, segmentsToCues, formatSubtitles } from '../src/utils/subtitleUtils';
+
+test('SRT cues are parsed with comma timestamps and multi-line text', () => {
+    const cues = parseSubtitles('1\r\n00:00:01,500 --> 00:00:03,250\r\nHello\r\nthere\r\n\r\n2\r\n00:01:02,000 --> 00:01:04,000\r\nSecond cue\r\n');
+    assert.deepStrictEqual(cues, [
+        { start: 1.5, end: 3.25, text: 'Hello there' },
+        { start: 62, end: 64, text: 'Second cue' }
+    ]);
+});
+
+test('WebVTT headers, notes and cue settings are skipped', () => {
+    const cues = parseSubtitles('WEBVTT\n\nNOTE generated\n\nintro\n01:02.500 --> 01:03.000 align:start\nShort timestamp\n\n00:00:05.000 --> 00:00:06.000\n');
+    assert.deepStrictEqual(cues, [{ start: 62.5, end: 63, text: 'Short timestamp' }]);
+});
+
+test('Whisper TSV is parsed from milliseconds', () => {
+    assert.deepStrictEqual(parseWhisperTsv('start\tend\ttext\n0\t1500\tHi\n1500\t2000\t \n2000\t4200\tBye\n'), [
+        { start: 0, end: 1.5, text: 'Hi' },
+        { start: 2, end: 4.2, text: 'Bye' }
+    ]);
+});
+
+test('short segments become one cue each, empty segments are dropped', () => {
+    const cues = segmentsToCues([
+        { text: ' Hello ', start: 0, end: 1, speaker: 'Anna' },
+        { text: '  ', start: 1, end: 2 }
+    ]);
+    assert.deepStrictEqual(cues, [{ start: 0, end: 1, text: 'Hello', speaker: 'Anna' }]);
+});
+
+test('long segments are split at word boundaries using word timings', () => {
+    const words = ['alpha', 'beta', 'gamma', 'delta'].map((word, index) => ({ word, start: index, end: index + 1 }));
+    const cues = segmentsToCues([{ text: 'alpha beta gamma delta', start: 0, end: 4, words }], 10);
+    assert.deepStrictEqual(cues, [
+        { start: 0, end: 2, text: 'alpha beta', speaker: undefined },
+        { start: 2, end: 3, text: 'gamma', speaker: undefined },
+        { start: 3, end: 4, text: 'delta', speaker: undefined }
+    ]);
+});
+
+test('long segments without word timings stay in one cue', () => {
+    const cues = segmentsToCues([{ text: 'a long segment without words', start: 0, end: 4 }], 10);
+    assert.strictEqual(cues.length, 1);
+});
+
+test('cues are formatted as SRT and WebVTT with speakers', () => {
+    const cues = [{ start: 3661.5, end: 3662, text: 'Hi', speaker: 'Anna' }, { start: 5, end: 4, text: 'Bye' }];
+    assert.strictEqual(formatSubtitles(cues, 'srt'), '1\n01:01:01,500 --> 01:01:02,000\nAnna: Hi\n\n2\n00:00:05,000 --> 00:00:05,000\nBye\n');
+    assert.strictEqual(formatSubtitles(cues, 'vtt'), 'WEBVTT\n\n01:01:01.500 --> 01:01:02.000\n<v Anna>Hi\n\n00:00:05.000 --> 00:00:05.000\nBye\n');
+});
+
+test('formatted subtitles parse back to the same cues', () => {
+    const cues = [{ start: 1.25, end: 2.5, text: 'Round trip' }];
+    assert.deepStrictEqual(parseSubtitles(formatSubtitles(cues, 'srt')), cues);
+    assert.deepStrictEqual(parseSubtitles(formatSubtitles(cues, 'vtt')), cues);
+});
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { TemplateManager } from '../src/templates/TemplateManager';
+
+const templateManager = new TemplateManager();
+
+test('variables are replaced, with or without spaces inside the braces', () => {
+    assert.strictEqual(
+        templateManager.processTemplate('{{summary}} / {{ summary }} / {{unknown}}', { summary: 'Done' }),
+        'Done / Done / {{unknown}}'
+    );
+});
+
+test('variable names with regex characters do not throw', () => {
+    assert.strictEqual(templateManager.processTemplate('Mood: {{mood_:)}}', { 'mood_:)': 'good', 'a(b': 'x' }), 'Mood: good');
+});
+
+test('values are inserted literally and not expanded again', () => {
+    const value = "costs $& and $' and $` and {{other}}";
+    assert.strictEqual(templateManager.processTemplate('Before {{response}} after', { response: value, other: 'nope' }), `Before ${value} after`);
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { applyCorrections, correctTranscription, parseCorrectionRules, formatCorrectionReport, CorrectionRule } from '../src/utils/transcriptCorrections';
+
+const plainRule = (find: string, replace: string): CorrectionRule => ({ find, replace, regex: false, wholeWord: true, caseSensitive: false });
+
+test('plain rules replace whole words regardless of case', () => {
+    const result = applyCorrections('Obsidian and obsidians, OBSIDIAN.', [plainRule('obsidian', 'Obsidian')]);
+    assert.strictEqual(result.text, 'Obsidian and obsidians, Obsidian.');
+    assert.deepStrictEqual(result.counts, [2]);
+});
+
+test('whole word matching works for non-ASCII letters', () => {
+    const result = applyCorrections('Müller und Müllers', [plainRule('Müller', 'Mueller')]);
+    assert.strictEqual(result.text, 'Mueller und Müllers');
+});
+
+test('plain replacements are inserted literally', () => {
+    const result = applyCorrections('cost is five', [plainRule('five', '$1 5')]);
+    assert.strictEqual(result.text, 'cost is $1 5');
+});
+
+test('regex rules can reference groups', () => {
+    const rule: CorrectionRule = { find: '(\\d+) percent', replace: '$1%', regex: true, wholeWord: false, caseSensitive: true };
+    const result = applyCorrections('about 40 percent', [rule]);
+    assert.strictEqual(result.text, 'about 40%');
+});
+
+test('invalid regex rules are skipped', () => {
+    const rule: CorrectionRule = { find: '(unclosed', replace: 'x', regex: true, wholeWord: false, caseSensitive: true };
+    const result = applyCorrections('(unclosed', [rule]);
+    assert.strictEqual(result.text, '(unclosed');
+    assert.deepStrictEqual(result.counts, [0]);
+});
+
+test('rules are parsed from list lines and slash-wrapped regexes', () => {
+    const rules = parseCorrectionRules('# Corrections\n- chat gpt => ChatGPT\n1. /colou?r/i => color\nno rule here\n => missing find');
+    assert.deepStrictEqual(rules, [
+        { find: 'chat gpt', replace: 'ChatGPT', regex: false, wholeWord: true, caseSensitive: false },
+        { find: 'colou?r', replace: 'color', regex: true, wholeWord: false, caseSensitive: false }
+    ]);
+});
+
+test('transcription results are corrected including segments and report the rules that fired', () => {
+    const result = correctTranscription({
+        text: 'chat gpt said hi',
+        segments: [{ text: 'chat gpt said hi', start: 0, end: 2 }]
+    }, [plainRule('chat gpt', 'ChatGPT'), plainRule('unused', 'x')]);
+
+    assert.strictEqual(result.text, 'ChatGPT said hi');
+    assert.strictEqual(result.segments?.[0].text, 'ChatGPT said hi');
+    assert.deepStrictEqual(result.corrections, [{ find: 'chat gpt', replace: 'ChatGPT', count: 1 }]);
+    assert.strictEqual(formatCorrectionReport(result.corrections || []), '> [!info]- Transcript corrections\n> - `chat gpt` → ChatGPT (1×)');
+});
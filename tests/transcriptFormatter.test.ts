@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { applySpeakerNames, getBaseSpeakerLabel, getChunkSpeakerLabel, getSpeakers } from '../src/utils/transcriptFormatter';
+
+test('chunk speaker labels map back to the backend label', () => {
+    const label = getChunkSpeakerLabel('SPEAKER_00', 3);
+    assert.strictEqual(label, 'SPEAKER_00 (part 3)');
+    assert.strictEqual(getBaseSpeakerLabel(label), 'SPEAKER_00');
+    assert.strictEqual(getBaseSpeakerLabel('SPEAKER_01'), 'SPEAKER_01');
+});
+
+test('speakers are listed in order of appearance and renamed by label', () => {
+    const segments = [
+        { text: 'Hi', start: 0, end: 1, speaker: 'SPEAKER_01 (part 1)' },
+        { text: 'Hello', start: 1, end: 2, speaker: 'SPEAKER_00 (part 1)' },
+        { text: 'Again', start: 2, end: 3, speaker: 'SPEAKER_01 (part 2)' }
+    ];
+    assert.deepStrictEqual(getSpeakers(segments), ['SPEAKER_01 (part 1)', 'SPEAKER_00 (part 1)', 'SPEAKER_01 (part 2)']);
+
+    const named = applySpeakerNames(segments, { 'SPEAKER_01 (part 1)': 'Anna', 'SPEAKER_01 (part 2)': ' Anna ' });
+    assert.deepStrictEqual(named.map(segment => segment.speaker), ['Anna', 'SPEAKER_00 (part 1)', 'Anna']);
+});
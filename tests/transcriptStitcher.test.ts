@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { findWordOverlap, stitchTranscripts } from '../src/utils/transcriptStitcher';
+
+test('words repeated by the audio overlap are removed once', () => {
+    const text = stitchTranscripts(['we went to the lake today', 'The lake, today it was cold'], [0, 2]);
+    assert.strictEqual(text, 'we went to the lake today it was cold');
+});
+
+test('chunks without overlap keep genuinely repeated words', () => {
+    const text = stitchTranscripts(['I said thank you', 'thank you again'], [0, 0]);
+    assert.strictEqual(text, 'I said thank you thank you again');
+});
+
+test('duplicates longer than the overlap window are kept', () => {
+    const text = stitchTranscripts(['one two three four five six', 'one two three four five six seven'], [0, 0.5]);
+    assert.strictEqual(text, 'one two three four five six one two three four five six seven');
+});
+
+test('an empty chunk does not let the next chunk dedup against earlier text', () => {
+    const text = stitchTranscripts(['see you soon', '', 'see you soon'], [0, 1, 1]);
+    assert.strictEqual(text, 'see you soon see you soon');
+});
+
+test('findWordOverlap ignores single word matches', () => {
+    assert.strictEqual(findWordOverlap(['a', 'b', 'c'], ['c', 'd']), 0);
+    assert.strictEqual(findWordOverlap(['a', 'b', 'c'], ['B', 'c.', 'd']), 2);
+});